@@ -1,19 +1,26 @@
-import type { AxiosInstance } from "axios";
-import type { AccountWrap } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type {
+  AccountWrap,
+  RequestOptions,
+  HttpClient,
+} from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getAccountRaw(): Promise<AccountWrap> {
-      return await client.get("me");
+    async getAccountRaw(options: RequestOptions = {}): Promise<AccountWrap> {
+      return await client.get(
+        "me",
+        requestConfig("account.getAccountRaw", options),
+      );
     },
 
-    async getAccount() {
-      const { account } = await this.getAccountRaw();
+    async getAccount(options: RequestOptions = {}) {
+      const { account } = await this.getAccountRaw(options);
       return account;
     },
 
-    async getMe() {
-      return await this.getAccount();
+    async getMe(options: RequestOptions = {}) {
+      return await this.getAccount(options);
     },
   };
 }
@@ -1,12 +1,24 @@
-import type { AxiosInstance } from "axios";
-import type { Batch } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type {
+  Batch,
+  RequestOptions,
+  BatchResult,
+  HttpClient,
+} from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async batch(requests: Batch[]): Promise<any[]> {
-      return await client.post("batch", {
-        requests,
-      });
+    async batch(
+      requests: Batch[],
+      options: RequestOptions = {},
+    ): Promise<BatchResult[]> {
+      return await client.post(
+        "batch",
+        {
+          requests,
+        },
+        requestConfig("batch.batch", options),
+      );
     },
   };
 }
@@ -1,4 +1,5 @@
-import type { AxiosInstance } from "axios";
+import { requestConfig } from "../requestOptions.js";
+import { paginate } from "../paginate.js";
 import type {
   CampaignAction,
   CampaignContent,
@@ -7,34 +8,66 @@ import type {
   CampaignSendData,
   CampaignStatus,
   Count,
+  PaginationOptions,
+  RequestOptions,
+  Campaign,
+  SuccessResponse,
+  HttpClient,
 } from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
     async actOnCampaign(
-      campaignId: number,
+      campaignId: number | string,
       action: CampaignAction,
       data: CampaignSendData = {},
-    ) {
+      options: RequestOptions = {},
+    ): Promise<Campaign> {
       return await client.post(
         `/campaigns/${campaignId}/actions/${action}`,
         data,
+        requestConfig("campaigns.actOnCampaign", options),
       );
     },
 
     async getCampaigns(
       status: CampaignStatus = "sent",
       params: CampaignQuery = {},
+      options: RequestOptions = {},
+    ): Promise<Campaign[]> {
+      return await client.get(`campaigns/${status}`, {
+        params,
+        ...requestConfig("campaigns.getCampaigns", options),
+      });
+    },
+
+    async *iterateCampaigns(
+      status: CampaignStatus = "sent",
+      params: Omit<CampaignQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
     ) {
-      return await client.get(`campaigns/${status}`, { params });
+      yield* paginate(
+        (limit, offset) =>
+          this.getCampaigns(status, { ...params, limit, offset }, options),
+        options,
+      );
     },
 
-    async getCampaignCount(status: CampaignStatus = "sent"): Promise<number> {
-      const { count }: Count = await client.get(`campaigns/${status}/count`);
+    async getCampaignCount(
+      status: CampaignStatus = "sent",
+      options: RequestOptions = {},
+    ): Promise<number> {
+      const { count }: Count = await client.get(
+        `campaigns/${status}/count`,
+        requestConfig("campaigns.getCampaignCount", options),
+      );
       return count;
     },
 
-    async createCampaign(campaign: CampaignData) {
+    async createCampaign(
+      campaign: CampaignData,
+      options: RequestOptions = {},
+    ): Promise<Campaign> {
       if (!campaign.groups && !campaign.segments) {
         throw new Error("Groups or segments have to be specified");
       }
@@ -53,15 +86,33 @@ export default function (client: AxiosInstance) {
         throw new Error("AbSettings are required if campaign type is ab.");
       }
 
-      return await client.post("campaigns", campaign);
+      return await client.post(
+        "campaigns",
+        campaign,
+        requestConfig("campaigns.createCampaign", options),
+      );
     },
 
-    async getCampaign(campaignId: number) {
-      return await client.get(`campaigns/${campaignId}`);
+    async getCampaign(
+      campaignId: number | string,
+      options: RequestOptions = {},
+    ): Promise<Campaign> {
+      return await client.get(
+        `campaigns/${campaignId}`,
+        requestConfig("campaigns.getCampaign", options),
+      );
     },
 
-    async setCampaignContent(campaignId: number, content: CampaignContent) {
-      return await client.put(`campaigns/${campaignId}/content`, content);
+    async setCampaignContent(
+      campaignId: number | string,
+      content: CampaignContent,
+      options: RequestOptions = {},
+    ): Promise<SuccessResponse> {
+      return await client.put(
+        `campaigns/${campaignId}/content`,
+        content,
+        requestConfig("campaigns.setCampaignContent", options),
+      );
     },
   };
 }
@@ -1,22 +1,53 @@
-import type { AxiosInstance } from "axios";
-import type { FieldData, FieldUpdate } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type {
+  FieldData,
+  FieldUpdate,
+  RequestOptions,
+  Field,
+  SuccessResponse,
+  HttpClient,
+} from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getFields() {
-      return await client.get("fields");
+    async getFields(options: RequestOptions = {}): Promise<Field[]> {
+      return await client.get(
+        "fields",
+        requestConfig("fields.getFields", options),
+      );
     },
 
-    async createField(field: FieldData) {
-      return await client.post("fields", field);
+    async createField(
+      field: FieldData,
+      options: RequestOptions = {},
+    ): Promise<Field> {
+      return await client.post(
+        "fields",
+        field,
+        requestConfig("fields.createField", options),
+      );
     },
 
-    async updateField(fieldId: number, fieldUpdate: FieldUpdate) {
-      return await client.put(`fields/${fieldId}`, fieldUpdate);
+    async updateField(
+      fieldId: number | string,
+      fieldUpdate: FieldUpdate,
+      options: RequestOptions = {},
+    ): Promise<Field> {
+      return await client.put(
+        `fields/${fieldId}`,
+        fieldUpdate,
+        requestConfig("fields.updateField", options),
+      );
     },
 
-    async removeField(fieldId: number) {
-      return await client.delete(`fields/${fieldId}`);
+    async removeField(
+      fieldId: number | string,
+      options: RequestOptions = {},
+    ): Promise<SuccessResponse> {
+      return await client.delete(
+        `fields/${fieldId}`,
+        requestConfig("fields.removeField", options),
+      );
     },
   };
 }
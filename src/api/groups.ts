@@ -1,130 +1,363 @@
-import type { AxiosInstance } from "axios";
+import { requestConfig } from "../requestOptions.js";
+import { paginate } from "../paginate.js";
+import { AbortError } from "../errors.js";
 import type {
   Count,
   GroupData,
+  GroupImportOptions,
+  GroupImportReport,
   GroupQuery,
   GroupSearchQuery,
   GroupSubscriberData,
   GroupSubscriberFlags,
+  PaginationOptions,
   SubscriberGroupQuery,
   SubscriberType,
+  RequestOptions,
+  ImportStatus,
+  MailerLiteGroup,
+  Subscriber,
+  SuccessResponse,
+  CustomFieldTypes,
+  HttpClient,
 } from "../types/index.js";
 
-export interface MailerLiteGroup {
-  id: number;
-  name: string;
-  total: number;
-  active: number;
-  unsubscribed: number;
-  bounced: number;
-  unconfirmed: number;
-  junk: number;
-  sent: number;
-  opened: number;
-  clicked: number;
-  parentId: number;
-  dateCreated: string;
-  dateUpdated: string;
-}
+export type { MailerLiteGroup };
+
+const DEFAULT_IMPORT_CHUNK_SIZE = 500;
+const DEFAULT_IMPORT_POLL_INTERVAL = 1000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-export default function (client: AxiosInstance) {
+export default function <TFields extends CustomFieldTypes = CustomFieldTypes>(
+  client: HttpClient,
+) {
   return {
-    async getGroups(params: GroupQuery = {}): Promise<MailerLiteGroup[]> {
-      return await client.get("groups", { params });
+    async getGroups(
+      params: GroupQuery = {},
+      options: RequestOptions = {},
+    ): Promise<MailerLiteGroup[]> {
+      return await client.get("groups", {
+        params,
+        ...requestConfig("groups.getGroups", options),
+      });
+    },
+
+    async *iterateGroups(
+      params: Omit<GroupQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
+    ): AsyncGenerator<MailerLiteGroup, void, undefined> {
+      yield* paginate(
+        (limit, offset) =>
+          this.getGroups({ ...params, limit, offset }, options),
+        options,
+      );
     },
 
     async searchGroups(
       groupName: GroupSearchQuery["group_name"],
+      options: RequestOptions = {},
     ): Promise<MailerLiteGroup[]> {
-      return await client.post("groups/search", { group_name: groupName });
+      return await client.post(
+        "groups/search",
+        { group_name: groupName },
+        requestConfig("groups.searchGroups", options),
+      );
     },
 
-    async getGroup(groupId: number): Promise<MailerLiteGroup> {
-      return await client.get(`groups/${groupId}`);
+    async getGroup(
+      groupId: number | string,
+      options: RequestOptions = {},
+    ): Promise<MailerLiteGroup> {
+      return await client.get(
+        `groups/${groupId}`,
+        requestConfig("groups.getGroup", options),
+      );
     },
 
-    async createGroup(group: GroupData): Promise<MailerLiteGroup> {
-      return await client.post("groups", group);
+    async createGroup(
+      group: GroupData,
+      options: RequestOptions = {},
+    ): Promise<MailerLiteGroup> {
+      return await client.post(
+        "groups",
+        group,
+        requestConfig("groups.createGroup", options),
+      );
     },
 
-    async updateGroup(groupId: number, group: GroupData) {
-      return await client.put(`groups/${groupId}`, group);
+    async updateGroup(
+      groupId: number | string,
+      group: GroupData,
+      options: RequestOptions = {},
+    ): Promise<MailerLiteGroup> {
+      return await client.put(
+        `groups/${groupId}`,
+        group,
+        requestConfig("groups.updateGroup", options),
+      );
     },
 
-    async removeGroup(groupId: number): Promise<{ success: boolean }> {
-      return await client.delete(`groups/${groupId}`);
+    async removeGroup(
+      groupId: number | string,
+      options: RequestOptions = {},
+    ): Promise<SuccessResponse> {
+      return await client.delete(
+        `groups/${groupId}`,
+        requestConfig("groups.removeGroup", options),
+      );
     },
 
     async addSubscriberToGroup(
-      groupId: number,
-      subscriber: GroupSubscriberData,
-    ) {
-      return await client.post(`groups/${groupId}/subscribers`, subscriber);
+      groupId: number | string,
+      subscriber: GroupSubscriberData<TFields>,
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>> {
+      return await client.post(
+        `groups/${groupId}/subscribers`,
+        subscriber,
+        requestConfig("groups.addSubscriberToGroup", options),
+      );
     },
 
     async addSubscribersToGroup(
-      groupId: number,
-      subscribers: GroupSubscriberData[],
+      groupId: number | string,
+      subscribers: GroupSubscriberData<TFields>[],
       importOptions: GroupSubscriberFlags = {},
-    ) {
-      return await client.post(`groups/${groupId}/subscribers/import`, {
-        subscribers,
-        ...importOptions,
-      });
+      options: RequestOptions = {},
+    ): Promise<ImportStatus<TFields>> {
+      return await client.post(
+        `groups/${groupId}/subscribers/import`,
+        {
+          subscribers,
+          ...importOptions,
+        },
+        requestConfig("groups.addSubscribersToGroup", options),
+      );
     },
 
-    async getSubscribersGroupImport(groupId: number, importId: number) {
+    async getSubscribersGroupImport(
+      groupId: number | string,
+      importId: number | string,
+      options: RequestOptions = {},
+    ): Promise<ImportStatus<TFields>> {
       return await client.get(
         `groups/${groupId}/subscribers/import/${importId}`,
+        requestConfig("groups.getSubscribersGroupImport", options),
       );
     },
 
-    async getGroupSubscriber(groupId: number, subscriberId: number) {
-      return await client.get(`groups/${groupId}/subscribers/${subscriberId}`);
+    async importSubscribersToGroup(
+      groupId: number | string,
+      subscribers: GroupSubscriberData<TFields>[],
+      options: GroupImportOptions = {},
+    ): Promise<GroupImportReport<TFields>> {
+      const {
+        chunkSize = DEFAULT_IMPORT_CHUNK_SIZE,
+        pollInterval = DEFAULT_IMPORT_POLL_INTERVAL,
+        resubscribe,
+        autoresponders,
+        onProgress,
+        onChunk,
+      } = options;
+
+      if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+        throw new Error("chunkSize has to be a positive integer");
+      }
+
+      const flags: GroupSubscriberFlags = { returnStatus: true };
+      if (resubscribe !== undefined) flags.resubscribe = resubscribe;
+      if (autoresponders !== undefined) flags.autoresponders = autoresponders;
+
+      const report: GroupImportReport<TFields> = {
+        imported: [],
+        updated: [],
+        unchanged: [],
+        errors: [],
+        unknown: [],
+      };
+      const total = subscribers.length;
+      const chunks = Math.ceil(total / chunkSize);
+      let finished = 0;
+
+      for (let index = 0; index < chunks; index++) {
+        const chunk = subscribers.slice(
+          index * chunkSize,
+          (index + 1) * chunkSize,
+        );
+        const progress = (processed: number) =>
+          onProgress?.({
+            chunk: index + 1,
+            chunks,
+            processed: finished + processed,
+            total,
+          });
+
+        let status: ImportStatus<TFields>;
+        try {
+          status = await this.addSubscribersToGroup(
+            groupId,
+            chunk,
+            flags,
+            options,
+          );
+        } catch (error) {
+          if (error instanceof AbortError) throw error;
+
+          // Report the subscribers of a failed chunk, then go on
+          status = {
+            imported: [],
+            updated: [],
+            unchanged: [],
+            errors: chunk.map(({ email }) => ({
+              email,
+              error: (error as Error).name,
+              message: (error as Error).message,
+            })),
+          };
+        }
+
+        // Large imports go on in the background until they are done
+        while (status.importProgress && !status.importProgress.done) {
+          const { id, processed = 0 } = status.importProgress;
+          progress(processed);
+          await wait(pollInterval);
+          try {
+            status = await this.getSubscribersGroupImport(groupId, id, options);
+          } catch (error) {
+            if (error instanceof AbortError) throw error;
+
+            // The import was accepted and may still finish, so its
+            // subscribers are neither failed nor imported
+            report.unknown.push({
+              importId: id,
+              emails: chunk.map(({ email }) => email),
+              error: (error as Error).name,
+              message: (error as Error).message,
+            });
+            break;
+          }
+        }
+
+        report.imported.push(...(status.imported ?? []));
+        report.updated.push(...(status.updated ?? []));
+        report.unchanged.push(...(status.unchanged ?? []));
+        report.errors.push(
+          ...(status.errors ?? []),
+          ...(status.mxErrors ?? []),
+        );
+
+        finished += chunk.length;
+        progress(0);
+        onChunk?.(status, index + 1);
+      }
+
+      return report;
+    },
+
+    async getGroupSubscriber(
+      groupId: number | string,
+      subscriberId: number | string,
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>> {
+      return await client.get(
+        `groups/${groupId}/subscribers/${subscriberId}`,
+        requestConfig("groups.getGroupSubscriber", options),
+      );
     },
 
     async getGroupSubscribers(
-      groupId: number,
+      groupId: number | string,
       params: SubscriberGroupQuery = {},
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>[]> {
+      return await client.get(`groups/${groupId}/subscribers`, {
+        params,
+        ...requestConfig("groups.getGroupSubscribers", options),
+      });
+    },
+
+    async *iterateGroupSubscribers(
+      groupId: number | string,
+      params: Omit<SubscriberGroupQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
     ) {
-      return await client.get(`groups/${groupId}/subscribers`, { params });
+      yield* paginate(
+        (limit, offset) =>
+          this.getGroupSubscribers(
+            groupId,
+            { ...params, limit, offset },
+            options,
+          ),
+        options,
+      );
     },
 
-    async getGroupSubscriberCount(groupId: number) {
+    async getGroupSubscriberCount(
+      groupId: number | string,
+      options: RequestOptions = {},
+    ) {
       const { count }: Count = await client.get(
         `groups/${groupId}/subscribers/count`,
+        requestConfig("groups.getGroupSubscriberCount", options),
       );
       return count;
     },
 
     async getGroupSubscribersByType(
-      groupId: number,
+      groupId: number | string,
       subscriberType: SubscriberType,
       params: GroupQuery = {},
-    ) {
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>[]> {
       return await client.get(
         `groups/${groupId}/subscribers/${subscriberType}`,
-        { params },
+        {
+          params,
+          ...requestConfig("groups.getGroupSubscribersByType", options),
+        },
+      );
+    },
+
+    async *iterateGroupSubscribersByType(
+      groupId: number | string,
+      subscriberType: SubscriberType,
+      params: Omit<GroupQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
+    ) {
+      yield* paginate(
+        (limit, offset) =>
+          this.getGroupSubscribersByType(
+            groupId,
+            subscriberType,
+            { ...params, limit, offset },
+            options,
+          ),
+        options,
       );
     },
 
     async getGroupSubscribersCountByType(
-      groupId: number,
+      groupId: number | string,
       subscriberType: SubscriberType,
+      options: RequestOptions = {},
     ) {
       const { count }: Count = await client.get(
         `groups/${groupId}/subscribers/${subscriberType}/count`,
+        requestConfig("groups.getGroupSubscribersCountByType", options),
       );
 
       return count;
     },
 
     async removeGroupSubscriber(
-      groupId: number,
+      groupId: number | string,
       subscriberIdentifier: number | string,
+      options: RequestOptions = {},
     ): Promise<string> {
       return await client.delete(
         `groups/${groupId}/subscribers/${subscriberIdentifier}`,
+        requestConfig("groups.removeGroupSubscriber", options),
       );
     },
   };
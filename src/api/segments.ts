@@ -1,20 +1,47 @@
-import type { AxiosInstance } from "axios";
-import type { SegmentQuery, SegmentsResponse } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import { paginate } from "../paginate.js";
+import type {
+  PaginationOptions,
+  SegmentQuery,
+  SegmentsResponse,
+  RequestOptions,
+  HttpClient,
+} from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getSegments(params: SegmentQuery = {}) {
-      const { data } = await this.getSegmentsRaw(params);
+    async getSegments(params: SegmentQuery = {}, options: RequestOptions = {}) {
+      const { data } = await this.getSegmentsRaw(params, options);
       return data;
     },
 
-    async getSegmentsCount(params: SegmentQuery = {}) {
-      const { meta } = await this.getSegmentsRaw(params);
+    async *iterateSegments(
+      params: Omit<SegmentQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
+    ) {
+      yield* paginate(
+        (limit, offset) =>
+          this.getSegments({ ...params, limit, offset }, options),
+        options,
+      );
+    },
+
+    async getSegmentsCount(
+      params: SegmentQuery = {},
+      options: RequestOptions = {},
+    ) {
+      const { meta } = await this.getSegmentsRaw(params, options);
       return meta.pagination.count;
     },
 
-    async getSegmentsRaw(params: SegmentQuery = {}): Promise<SegmentsResponse> {
-      return await client.get("segments", { params });
+    async getSegmentsRaw(
+      params: SegmentQuery = {},
+      options: RequestOptions = {},
+    ): Promise<SegmentsResponse> {
+      return await client.get("segments", {
+        params,
+        ...requestConfig("segments.getSegmentsRaw", options),
+      });
     },
   };
 }
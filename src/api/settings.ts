@@ -1,29 +1,47 @@
-import type { AxiosInstance } from "axios";
-import type { DoubleOptinStatus } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type {
+  DoubleOptinStatus,
+  RequestOptions,
+  HttpClient,
+} from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getDoubleOptinStatus(): Promise<DoubleOptinStatus> {
-      return await client.get("settings/double_optin");
+    async getDoubleOptinStatus(
+      options: RequestOptions = {},
+    ): Promise<DoubleOptinStatus> {
+      return await client.get(
+        "settings/double_optin",
+        requestConfig("settings.getDoubleOptinStatus", options),
+      );
     },
 
-    async hasEnabledDoubleOptin(): Promise<boolean> {
-      const status = await this.getDoubleOptinStatus();
+    async hasEnabledDoubleOptin(
+      options: RequestOptions = {},
+    ): Promise<boolean> {
+      const status = await this.getDoubleOptinStatus(options);
       return status.enabled;
     },
 
-    async setDoubleOptin(isEnabled: boolean): Promise<DoubleOptinStatus> {
-      return await client.post("settings/double_optin", {
-        enable: isEnabled,
-      });
+    async setDoubleOptin(
+      isEnabled: boolean,
+      options: RequestOptions = {},
+    ): Promise<DoubleOptinStatus> {
+      return await client.post(
+        "settings/double_optin",
+        {
+          enable: isEnabled,
+        },
+        requestConfig("settings.setDoubleOptin", options),
+      );
     },
 
-    async enableDoubleOptin() {
-      return await this.setDoubleOptin(true);
+    async enableDoubleOptin(options: RequestOptions = {}) {
+      return await this.setDoubleOptin(true, options);
     },
 
-    async disableDoubleOptin() {
-      return await this.setDoubleOptin(false);
+    async disableDoubleOptin(options: RequestOptions = {}) {
+      return await this.setDoubleOptin(false, options);
     },
   };
 }
@@ -1,10 +1,13 @@
-import type { AxiosInstance } from "axios";
-import type { Stats } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type { Stats, RequestOptions, HttpClient } from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getStats(): Promise<Stats> {
-      return await client.get("stats");
+    async getStats(options: RequestOptions = {}): Promise<Stats> {
+      return await client.get(
+        "stats",
+        requestConfig("stats.getStats", options),
+      );
     },
   };
 }
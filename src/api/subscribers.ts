@@ -1,58 +1,386 @@
-import type { AxiosInstance } from "axios";
+import { requestConfig } from "../requestOptions.js";
+import { paginate } from "../paginate.js";
+import { toSnakeCase } from "../caseConversion.js";
+import { NotFoundError } from "../errors.js";
+import fields from "./fields.js";
 import type {
+  PaginationOptions,
   SubscriberQuery,
   SubscriberData,
   SubscriberDataUpdate,
+  SubscriberUpsertOptions,
+  SubscriberUpsertResult,
   SubscriberSearchQuery,
   SubscriberActivityType,
+  RequestOptions,
+  MailerLiteGroup,
+  Subscriber,
+  SubscriberActivity,
+  SubscriberDataExport,
+  SubscriberEngagement,
+  SubscriberTimeline,
+  SubscriberTimelineEvent,
+  SubscriberTimelineOptions,
+  SuccessResponse,
+  CustomFieldTypes,
+  HttpClient,
 } from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "";
+
+// Compare an input value with the value the API returned for it
+const isSameValue = (current: unknown, next: unknown) => {
+  if (next instanceof Date) {
+    return (
+      String(current ?? "").slice(0, 10) === next.toISOString().slice(0, 10)
+    );
+  }
+  if (isEmpty(current) || isEmpty(next))
+    return isEmpty(current) && isEmpty(next);
+
+  return String(current) === String(next);
+};
+
+// Field key as the API returns it, e.g. `company_size` for `companySize`
+const apiFieldKey = (key: string) =>
+  Object.keys(toSnakeCase({ [key]: null }))[0];
+
+const SUBSCRIBER_EXPORT_VERSION = 1;
+
+const ACTIVITY_TYPES: Exclude<SubscriberActivityType, null>[] = [
+  "opens",
+  "clicks",
+  "junks",
+  "bounces",
+  "unsubscribes",
+  "forwards",
+  "sendings",
+];
+
+// Activity dates come as `2016-11-10 12:00:00`
+const activityTime = (date: Date | string) =>
+  date instanceof Date ? date.getTime() : Date.parse(date.replace(" ", "T"));
+
+const toTimelineEvent = ({
+  type,
+  date,
+  reportId,
+  subject,
+  link,
+  linkId,
+}: SubscriberActivity): SubscriberTimelineEvent => {
+  const campaign = { reportId, subject };
+
+  return type === "clicks"
+    ? { type, date, campaign, link: link ?? null, linkId: linkId ?? null }
+    : { type, date, campaign };
+};
+
+// Summary of chronologically sorted events
+const summarizeEngagement = (
+  events: SubscriberTimelineEvent[],
+): SubscriberEngagement => {
+  const last = (type: SubscriberTimelineEvent["type"]) =>
+    events.reduce<string | null>(
+      (date, event) => (event.type === type ? event.date : date),
+      null,
+    );
+  const sent = new Set(
+    events
+      .filter(({ type }) => type === "sendings")
+      .map(({ campaign }) => campaign.reportId),
+  );
+  const opened = new Set(
+    events
+      .filter(
+        ({ type, campaign }) => type === "opens" && sent.has(campaign.reportId),
+      )
+      .map(({ campaign }) => campaign.reportId),
+  );
+
   return {
-    async getSubscribers(params: SubscriberQuery = {}) {
-      return await client.get("subscribers", { params });
+    lastOpen: last("opens"),
+    lastClick: last("clicks"),
+    sent: sent.size,
+    opened: opened.size,
+    openRate: sent.size > 0 ? opened.size / sent.size : 0,
+  };
+};
+
+export default function <TFields extends CustomFieldTypes = CustomFieldTypes>(
+  client: HttpClient,
+) {
+  return {
+    async getSubscribers(
+      params: SubscriberQuery = {},
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>[]> {
+      return await client.get("subscribers", {
+        params,
+        ...requestConfig("subscribers.getSubscribers", options),
+      });
+    },
+
+    async *iterateSubscribers(
+      params: Omit<SubscriberQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
+    ) {
+      yield* paginate(
+        (limit, offset) =>
+          this.getSubscribers({ ...params, limit, offset }, options),
+        options,
+      );
     },
 
-    async addSubscriber(subscriber: SubscriberData) {
-      return await client.post("subscribers", subscriber);
+    async addSubscriber(
+      subscriber: SubscriberData<TFields>,
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>> {
+      return await client.post(
+        "subscribers",
+        subscriber,
+        requestConfig("subscribers.addSubscriber", options),
+      );
     },
 
-    async getSubscriber(identifier: number | string) {
-      return await client.get(`subscribers/${identifier}`);
+    async getSubscriber(
+      identifier: number | string,
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>> {
+      return await client.get(
+        `subscribers/${identifier}`,
+        requestConfig("subscribers.getSubscriber", options),
+      );
     },
 
     async updateSubscriber(
       identifier: number | string,
-      subscriber: SubscriberDataUpdate,
-    ) {
-      return await client.put(`subscribers/${identifier}`, subscriber);
+      subscriber: SubscriberDataUpdate<TFields>,
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>> {
+      return await client.put(
+        `subscribers/${identifier}`,
+        subscriber,
+        requestConfig("subscribers.updateSubscriber", options),
+      );
     },
 
-    async searchSubscribers(params: SubscriberSearchQuery = {}) {
-      return await client.get("subscribers/search", { params });
+    async upsertSubscriber(
+      subscriber: SubscriberData<TFields>,
+      {
+        onlyChanged = true,
+        preserveUnsubscribed = true,
+      }: SubscriberUpsertOptions = {},
+      options: RequestOptions = {},
+    ): Promise<SubscriberUpsertResult<TFields>> {
+      let current: Subscriber<TFields>;
+      try {
+        current = await this.getSubscriber(subscriber.email, options);
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+
+        return {
+          status: "created",
+          subscriber: await this.addSubscriber(subscriber, options),
+        };
+      }
+
+      const changes: SubscriberDataUpdate<TFields> = {};
+
+      if (
+        subscriber.name !== undefined &&
+        (!onlyChanged || !isSameValue(current.name, subscriber.name))
+      ) {
+        changes.name = subscriber.name;
+      }
+
+      const currentValues = new Map<string, unknown>(
+        (current.fields ?? []).map(({ key, value }) => [key, value]),
+      );
+      const fields: { [key: string]: unknown } = {};
+      for (const [key, value] of Object.entries(subscriber.fields ?? {})) {
+        if (
+          !onlyChanged ||
+          !isSameValue(currentValues.get(apiFieldKey(key)), value)
+        ) {
+          fields[key] = value;
+        }
+      }
+      if (Object.keys(fields).length > 0) {
+        changes.fields = fields as SubscriberDataUpdate<TFields>["fields"];
+      }
+
+      // Unconfirmed is not a type an update can set
+      const type =
+        subscriber.type === "unconfirmed"
+          ? undefined
+          : (subscriber.type ??
+            (subscriber.resubscribe ? "active" : undefined));
+      const keepsUnsubscribed =
+        preserveUnsubscribed && current.type === "unsubscribed";
+      if (
+        type &&
+        !keepsUnsubscribed &&
+        (!onlyChanged || type !== current.type)
+      ) {
+        changes.type = type;
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return { status: "unchanged", subscriber: current };
+      }
+
+      return {
+        status: "updated",
+        subscriber: await this.updateSubscriber(
+          subscriber.email,
+          changes,
+          options,
+        ),
+        changes,
+      };
+    },
+
+    async searchSubscribers(
+      params: SubscriberSearchQuery = {},
+      options: RequestOptions = {},
+    ): Promise<Subscriber<TFields>[]> {
+      return await client.get("subscribers/search", {
+        params,
+        ...requestConfig("subscribers.searchSubscribers", options),
+      });
+    },
+
+    async *iterateSearchSubscribers(
+      params: Omit<SubscriberSearchQuery, "limit" | "offset"> = {},
+      options: PaginationOptions = {},
+    ) {
+      yield* paginate(
+        (limit, offset) =>
+          this.searchSubscribers({ ...params, limit, offset }, options),
+        options,
+      );
     },
 
-    async getSubscriberActivity(identifier: number | string) {
-      return await client.get(`subscribers/${identifier}/activity`);
+    async getSubscriberActivity(
+      identifier: number | string,
+      options: RequestOptions = {},
+    ): Promise<SubscriberActivity[]> {
+      return await client.get(
+        `subscribers/${identifier}/activity`,
+        requestConfig("subscribers.getSubscriberActivity", options),
+      );
     },
 
     async getSubscriberActivityByType(
       identifier: number | string,
       activityType: SubscriberActivityType,
-    ) {
+      options: RequestOptions = {},
+    ): Promise<SubscriberActivity[]> {
       const url = [`subscribers/${identifier}/activity`, activityType].join(
         "/",
       );
 
-      return await client.get(url);
+      return await client.get(
+        url,
+        requestConfig("subscribers.getSubscriberActivityByType", options),
+      );
     },
 
-    async removeSubscriber(identifier: number | string) {
-      return await client.delete(`subscribers/${identifier}`);
+    async getSubscriberTimeline(
+      identifier: number | string,
+      {
+        since,
+        types = ACTIVITY_TYPES,
+        engagement = false,
+      }: SubscriberTimelineOptions = {},
+      options: RequestOptions = {},
+    ): Promise<SubscriberTimeline> {
+      // The summary needs the opens, clicks and sendings even when not listed
+      const fetched = engagement
+        ? [...new Set([...types, "opens", "clicks", "sendings"] as const)]
+        : types;
+      // One request covers every type, otherwise the type of each event
+      // is the one of the endpoint it came from
+      const activity = ACTIVITY_TYPES.every((type) => fetched.includes(type))
+        ? await this.getSubscriberActivity(identifier, options)
+        : (
+            await Promise.all(
+              fetched.map(async (type) =>
+                (
+                  await this.getSubscriberActivityByType(
+                    identifier,
+                    type,
+                    options,
+                  )
+                ).map((event) => ({ ...event, type })),
+              ),
+            )
+          ).flat();
+
+      const start = since === undefined ? -Infinity : activityTime(since);
+      const events = activity
+        .filter(({ date }) => activityTime(date) >= start)
+        .sort((a, b) => activityTime(a.date) - activityTime(b.date))
+        .map(toTimelineEvent);
+
+      return {
+        events: events.filter(({ type }) => types.includes(type)),
+        ...(engagement && { engagement: summarizeEngagement(events) }),
+      };
     },
 
-    async getSubscriberGroups(identifier: number | string) {
-      return await client.get(`subscribers/${identifier}/groups`);
+    async removeSubscriber(
+      identifier: number | string,
+      options: RequestOptions = {},
+    ): Promise<SuccessResponse> {
+      return await client.delete(
+        `subscribers/${identifier}`,
+        requestConfig("subscribers.removeSubscriber", options),
+      );
+    },
+
+    async getSubscriberGroups(
+      identifier: number | string,
+      options: RequestOptions = {},
+    ): Promise<MailerLiteGroup[]> {
+      return await client.get(
+        `subscribers/${identifier}/groups`,
+        requestConfig("subscribers.getSubscriberGroups", options),
+      );
+    },
+
+    async exportSubscriberData(
+      identifier: number | string,
+      options: RequestOptions = {},
+    ): Promise<SubscriberDataExport> {
+      const { fields: values, ...profile } = await this.getSubscriber(
+        identifier,
+        options,
+      );
+      const [accountFields, groups, activity] = await Promise.all([
+        fields(client).getFields(options),
+        this.getSubscriberGroups(identifier, options),
+        this.getSubscriberActivity(identifier, options),
+      ]);
+      const titles = new Map(
+        accountFields.map(({ key, title }) => [key, title]),
+      );
+
+      return {
+        version: SUBSCRIBER_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        profile,
+        fields: values.map(({ key, type, value }) => ({
+          key,
+          title: titles.get(key) ?? key,
+          type,
+          value,
+        })),
+        groups: groups.map(({ id, name }) => ({ id, name })),
+        activity,
+      };
     },
   };
 }
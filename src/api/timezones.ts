@@ -1,17 +1,22 @@
-import type { AxiosInstance } from "axios";
-import type { Timezone } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type { RequestOptions, Timezone, HttpClient } from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getTimezones(): Promise<Timezone[]> {
+    async getTimezones(options: RequestOptions = {}): Promise<Timezone[]> {
       return await client.get("timezones", {
         baseURL: "https://api.mailerlite.com/api/master/",
+        ...requestConfig("timezones.getTimezones", options),
       });
     },
 
-    async getTimezone(timezoneId: number): Promise<Timezone> {
+    async getTimezone(
+      timezoneId: number | string,
+      options: RequestOptions = {},
+    ): Promise<Timezone> {
       return await client.get(`timezones/${timezoneId}`, {
         baseURL: "https://api.mailerlite.com/api/master/",
+        ...requestConfig("timezones.getTimezone", options),
       });
     },
   };
@@ -1,36 +1,75 @@
-import type { AxiosInstance } from "axios";
-import type { WebhookData, WebhooksResponse } from "../types/index.js";
+import { requestConfig } from "../requestOptions.js";
+import type {
+  WebhookData,
+  WebhooksResponse,
+  RequestOptions,
+  Webhook,
+  SuccessResponse,
+  HttpClient,
+} from "../types/index.js";
 
-export default function (client: AxiosInstance) {
+export default function (client: HttpClient) {
   return {
-    async getWebhooks() {
-      const { webhooks } = await this.getWebhooksRaw();
+    async getWebhooks(options: RequestOptions = {}) {
+      const { webhooks } = await this.getWebhooksRaw(options);
       return webhooks;
     },
 
-    async getWebhooksCount() {
-      const { count } = await this.getWebhooksRaw();
+    async getWebhooksCount(options: RequestOptions = {}) {
+      const { count } = await this.getWebhooksRaw(options);
       return count;
     },
 
-    async getWebhooksRaw(): Promise<WebhooksResponse> {
-      return await client.get("webhooks");
+    async getWebhooksRaw(
+      options: RequestOptions = {},
+    ): Promise<WebhooksResponse> {
+      return await client.get(
+        "webhooks",
+        requestConfig("webhooks.getWebhooksRaw", options),
+      );
     },
 
-    async getWebhook(webhookId: number) {
-      return await client.get(`webhooks/${webhookId}`);
+    async getWebhook(
+      webhookId: number | string,
+      options: RequestOptions = {},
+    ): Promise<Webhook> {
+      return await client.get(
+        `webhooks/${webhookId}`,
+        requestConfig("webhooks.getWebhook", options),
+      );
     },
 
-    async createWebhook(webhook: WebhookData) {
-      return await client.post("webhooks", webhook);
+    async createWebhook(
+      webhook: WebhookData,
+      options: RequestOptions = {},
+    ): Promise<Webhook> {
+      return await client.post(
+        "webhooks",
+        webhook,
+        requestConfig("webhooks.createWebhook", options),
+      );
     },
 
-    async updateWebhook(webhookId: number, webhookUpdate: WebhookData) {
-      return await client.put(`webhooks/${webhookId}`, webhookUpdate);
+    async updateWebhook(
+      webhookId: number | string,
+      webhookUpdate: WebhookData,
+      options: RequestOptions = {},
+    ): Promise<Webhook> {
+      return await client.put(
+        `webhooks/${webhookId}`,
+        webhookUpdate,
+        requestConfig("webhooks.updateWebhook", options),
+      );
     },
 
-    async removeWebhook(webhookId: number) {
-      return await client.delete(`webhooks/${webhookId}`);
+    async removeWebhook(
+      webhookId: number | string,
+      options: RequestOptions = {},
+    ): Promise<SuccessResponse> {
+      return await client.delete(
+        `webhooks/${webhookId}`,
+        requestConfig("webhooks.removeWebhook", options),
+      );
     },
   };
 }
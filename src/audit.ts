@@ -0,0 +1,201 @@
+import { REDACTED } from "./logger.js";
+import type {
+  AuditEntry,
+  AuditOptions,
+  AuditSink,
+  HttpRequestConfig,
+  Logger,
+} from "./types/index.js";
+
+/**
+ * Body keys masked by default, wherever they appear in the body
+ */
+export const DEFAULT_AUDIT_MASK = [
+  "email",
+  "name",
+  "last_name",
+  "phone",
+  "fields",
+];
+
+/**
+ * Audit trail of a call, shared by the entries of its retries
+ */
+export interface AuditTrail {
+  id: string;
+  attempts: number;
+}
+
+// Version 4 UUID, also where there is no crypto global, e.g. in the ES
+// modules of Node.js 18
+const randomUUID = (): string =>
+  globalThis.crypto?.randomUUID?.() ??
+  "10000000-1000-4000-8000-100000000000".replace(/[018]/g, (digit) =>
+    (
+      Number(digit) ^
+      (Math.floor(Math.random() * 16) & (15 >> (Number(digit) / 4)))
+    ).toString(16),
+  );
+
+// Path segments that are record IDs rather than resource names
+const isIdSegment = (segment: string) =>
+  /^\d+$/.test(segment) || segment.includes("@");
+
+const collectIds = (value: any, ids: Set<string>, depth = 0) => {
+  if (Array.isArray(value)) {
+    for (const item of value) collectIds(item, ids, depth);
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+
+  if (value.id !== undefined && value.id !== null) ids.add(String(value.id));
+
+  // Lists of records, e.g. the imported subscribers of an import
+  if (depth === 0) {
+    for (const nested of Object.values(value)) {
+      if (Array.isArray(nested)) collectIds(nested, ids, depth + 1);
+    }
+  }
+};
+
+/**
+ * IDs of the records a mutation touched, from its path and response
+ */
+export function affectedIds(path: string, data: unknown): string[] {
+  const ids = new Set<string>();
+
+  for (const segment of path.split(/[/?]/)) {
+    if (isIdSegment(segment)) ids.add(decodeURIComponent(segment));
+  }
+  collectIds(data, ids);
+
+  return [...ids];
+}
+
+/**
+ * Copy of a request path with the emails identifying subscribers replaced
+ */
+export function maskPath(path: string): string {
+  return path.replace(/[^/?]*(@|%40)[^/?]*/gi, REDACTED);
+}
+
+/**
+ * Copy of a request body with the values of the masked keys replaced
+ */
+export function maskBody(data: any, keys: string[]): any {
+  if (Array.isArray(data)) return data.map((item) => maskBody(item, keys));
+  if (!data || typeof data !== "object") return data;
+
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      keys.includes(key) ? REDACTED : maskBody(value, keys),
+    ]),
+  );
+}
+
+/**
+ * Appends one JSON line per mutating request to the configured sink
+ */
+export class AuditLog {
+  private sink: AuditSink;
+  private mask: NonNullable<AuditOptions["mask"]>;
+  private logger: Logger;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(options: AuditOptions, logger: Logger) {
+    this.sink = options.sink;
+    this.mask = options.mask ?? DEFAULT_AUDIT_MASK;
+    this.logger = logger;
+  }
+
+  /**
+   * Record an attempt of a mutating request. The first attempt of a call
+   * opens its trail, the entries of its retries point back to it.
+   */
+  record(
+    config: HttpRequestConfig,
+    trail: AuditTrail | undefined,
+    outcome: { status?: number; data?: unknown; error?: string },
+  ): AuditTrail | undefined {
+    try {
+      return this.recordAttempt(config, trail, outcome);
+    } catch (error) {
+      // The request was already sent, auditing it must not fail the call
+      this.logger.error("MailerLite API: Recording the audit log failed", {
+        error: (error as Error).message,
+        operation: config.operation,
+      });
+      return trail;
+    }
+  }
+
+  /**
+   * Wait until every entry recorded so far is written
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private recordAttempt(
+    config: HttpRequestConfig,
+    trail: AuditTrail | undefined,
+    outcome: { status?: number; data?: unknown; error?: string },
+  ): AuditTrail {
+    const id = randomUUID();
+    const attempt = (trail?.attempts ?? 0) + 1;
+    // Emails used as subscriber identifiers are masked with the body, so
+    // they are left out of the affected IDs as well
+    const maskEmails =
+      typeof this.mask === "function" || this.mask.includes("email");
+    const path = maskEmails ? maskPath(config.url ?? "") : (config.url ?? "");
+
+    const entry: AuditEntry = {
+      id,
+      timestamp: new Date().toISOString(),
+      operation: config.operation,
+      method: (config.method ?? "get").toUpperCase(),
+      path,
+      data:
+        typeof this.mask === "function"
+          ? this.mask(config.data)
+          : maskBody(config.data, this.mask),
+      status: outcome.status,
+      affectedIds: affectedIds(path, outcome.data),
+      attempt,
+    };
+    if (trail) entry.retryOf = trail.id;
+    if (outcome.error) entry.error = outcome.error;
+
+    this.write(entry);
+
+    if (!trail) return { id, attempts: 1 };
+    trail.attempts = attempt;
+    return trail;
+  }
+
+  private write(entry: AuditEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    const sink = this.sink;
+
+    // Entries are written one at a time, in the order they were recorded
+    this.pending = this.pending
+      .then(async () => {
+        if (typeof sink === "function") {
+          await sink(entry);
+        } else if (typeof sink === "string") {
+          const { appendFile } = await import("node:fs/promises");
+          await appendFile(sink, line);
+        } else {
+          sink.write(line);
+        }
+      })
+      .catch((error) => {
+        // A broken sink must not fail the calls being audited
+        this.logger.error("MailerLite API: Writing the audit log failed", {
+          error: (error as Error).message,
+          entry: entry.id,
+        });
+      });
+  }
+}
@@ -0,0 +1,245 @@
+import type {
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  HookResponse,
+  HttpRequestConfig,
+  Logger,
+} from "./types/index.js";
+import { buildURL } from "./transport.js";
+import { consoleLogger } from "./logger.js";
+
+const API_KEY_HEADER = "x-mailerlite-apikey";
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const DEFAULT_TTL: { [operation: string]: number } = {
+  "account.getAccountRaw": HOUR,
+  "fields.getFields": 5 * MINUTE,
+  "groups.getGroups": MINUTE,
+  "settings.getDoubleOptinStatus": 5 * MINUTE,
+  "timezones.getTimezones": 24 * HOUR,
+  "timezones.getTimezone": 24 * HOUR,
+  "webhooks.getWebhooksRaw": 5 * MINUTE,
+};
+
+// Cached operations made stale by a successful mutation
+const INVALIDATES: { [operation: string]: string[] } = {
+  "fields.createField": ["fields.getFields"],
+  "fields.updateField": ["fields.getFields"],
+  "fields.removeField": ["fields.getFields"],
+  "groups.createGroup": ["groups.getGroups"],
+  "groups.updateGroup": ["groups.getGroups"],
+  "groups.removeGroup": ["groups.getGroups"],
+  "groups.addSubscriberToGroup": ["groups.getGroups"],
+  "groups.addSubscribersToGroup": ["groups.getGroups"],
+  "groups.removeGroupSubscriber": ["groups.getGroups"],
+  "subscribers.addSubscriber": ["groups.getGroups"],
+  "subscribers.updateSubscriber": ["groups.getGroups"],
+  "subscribers.removeSubscriber": ["groups.getGroups"],
+  "settings.setDoubleOptin": ["settings.getDoubleOptinStatus"],
+  "webhooks.createWebhook": ["webhooks.getWebhooksRaw"],
+  "webhooks.updateWebhook": ["webhooks.getWebhooksRaw"],
+  "webhooks.removeWebhook": ["webhooks.getWebhooksRaw"],
+};
+
+// Digest of an API key, naming the account in the keys without the API key
+const accountHash = async (apiKey: string): Promise<string> => {
+  const subtle =
+    globalThis.crypto?.subtle ?? (await import("node:crypto")).webcrypto.subtle;
+  const digest = await subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(apiKey),
+  );
+
+  return Array.from(new Uint8Array(digest).slice(0, 8), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
+
+/**
+ * Default cache store, keeping the entries in process memory
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  get(key: string): CacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Read-through cache of slowly changing GET endpoints, invalidated by
+ * mutations made through the same client. Failures of the store are
+ * logged and the requests go on without the cache.
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private ttl: { [operation: string]: number };
+  private logger: Logger;
+  private keysByOperation = new Map<string, Set<string>>();
+  private accounts = new Map<string, Promise<string>>();
+  // Keys which could not be deleted, never served until written again
+  private staleKeys = new Set<string>();
+
+  constructor(options: CacheOptions = {}, logger: Logger = consoleLogger) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = { ...DEFAULT_TTL, ...options.ttl };
+    this.logger = logger;
+  }
+
+  /**
+   * Look up a fresh cached response of the request
+   */
+  async get(config: HttpRequestConfig): Promise<HookResponse | undefined> {
+    if (config.cache === false || !this.isCacheable(config)) return undefined;
+
+    const key = await this.getKey(config);
+    if (this.staleKeys.has(key)) return undefined;
+
+    const entry = await this.attempt("read", key, () => this.store.get(key));
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return undefined;
+    }
+
+    return {
+      status: entry.status,
+      headers: entry.headers,
+      data: structuredClone(entry.data),
+    };
+  }
+
+  /**
+   * Remember a successful response, or drop the entries it made stale
+   */
+  async update(
+    config: HttpRequestConfig,
+    response: HookResponse,
+  ): Promise<void> {
+    const operation = config.operation;
+    if (!operation) return;
+
+    if (this.isCacheable(config)) {
+      const key = await this.getKey(config);
+      const entry = {
+        ...response,
+        data: structuredClone(response.data),
+        expiresAt: Date.now() + this.ttl[operation],
+      };
+      const stored = await this.attempt("write", key, async () => {
+        await this.store.set(key, entry);
+        return true;
+      });
+      if (stored) {
+        this.staleKeys.delete(key);
+        this.track(operation, key);
+      }
+      return;
+    }
+
+    // Batches can change anything
+    const stale =
+      operation === "batch.batch"
+        ? [...this.keysByOperation.keys()]
+        : (INVALIDATES[operation] ?? []);
+    for (const cachedOperation of stale) {
+      await this.invalidate(cachedOperation);
+    }
+  }
+
+  /**
+   * Drop the cached responses of an operation
+   */
+  async invalidate(operation: string): Promise<void> {
+    const keys = this.keysByOperation.get(operation);
+    if (!keys) return;
+
+    this.keysByOperation.delete(operation);
+    for (const key of keys) {
+      await this.remove(key);
+    }
+  }
+
+  /**
+   * Drop every cached response
+   */
+  async clear(): Promise<void> {
+    for (const operation of [...this.keysByOperation.keys()]) {
+      await this.invalidate(operation);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    const removed = await this.attempt("delete", key, async () => {
+      await this.store.delete(key);
+      return true;
+    });
+    if (!removed) this.staleKeys.add(key);
+  }
+
+  /**
+   * Run a store call, logging its failure instead of failing the request
+   */
+  private async attempt<T>(
+    action: string,
+    key: string,
+    call: () => T | Promise<T>,
+  ): Promise<T | undefined> {
+    try {
+      return await call();
+    } catch (error) {
+      this.logger.warn(`MailerLite API: Cache ${action} failed`, {
+        key,
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  private isCacheable(config: HttpRequestConfig): boolean {
+    const operation = config.operation;
+    return (
+      (config.method ?? "get").toLowerCase() === "get" &&
+      operation !== undefined &&
+      (this.ttl[operation] ?? 0) > 0
+    );
+  }
+
+  // Keys start with the account, so clients of several accounts can share
+  // a store
+  private async getKey(config: HttpRequestConfig): Promise<string> {
+    const apiKey = Object.entries(config.headers ?? {})
+      .filter(([name]) => name.toLowerCase() === API_KEY_HEADER)
+      .map(([, value]) => value)
+      .pop();
+    const account = await this.getAccount(apiKey ?? "");
+
+    return `${account} ${config.operation} ${buildURL(config.baseURL ?? "", config.url ?? "", config.params)}`;
+  }
+
+  private getAccount(apiKey: string): Promise<string> {
+    let account = this.accounts.get(apiKey);
+    if (!account) {
+      account = accountHash(apiKey);
+      this.accounts.set(apiKey, account);
+    }
+    return account;
+  }
+
+  private track(operation: string, key: string): void {
+    const keys = this.keysByOperation.get(operation) ?? new Set<string>();
+    keys.add(key);
+    this.keysByOperation.set(operation, keys);
+  }
+}
@@ -0,0 +1,86 @@
+import camelCase from "camelcase-keys";
+import snakeCase from "snakecase-keys";
+
+type ConvertKeys = (input: Record<string, unknown>) => Record<string, unknown>;
+
+const camelCaseKeys: ConvertKeys = (input) => camelCase(input);
+const snakeCaseKeys: ConvertKeys = (input) => snakeCase(input);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Object.prototype.toString.call(value) === "[object Object]";
+
+// A path segment matches the key as given or as converted
+type Segment = [original: string, converted: string];
+
+const matchesPath = (pattern: string[], path: Segment[]) =>
+  pattern.length === path.length &&
+  pattern.every(
+    (part, index) =>
+      part === "*" || part === path[index][0] || part === path[index][1],
+  );
+
+function convertDeep(
+  input: unknown,
+  convert: ConvertKeys,
+  patterns: string[][],
+  path: Segment[],
+): unknown {
+  if (Array.isArray(input)) {
+    // Arrays are transparent in key paths
+    return input.map((item) => convertDeep(item, convert, patterns, path));
+  }
+  if (!isPlainObject(input)) return input;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    const converted = Object.keys(convert({ [key]: null }))[0] ?? key;
+    const keyPath: Segment[] = [...path, [key, converted]];
+
+    // Excluded keys are kept with their whole subtree
+    if (patterns.some((pattern) => matchesPath(pattern, keyPath))) {
+      result[key] = value;
+    } else {
+      result[converted] = convertDeep(value, convert, patterns, keyPath);
+    }
+  }
+
+  return result;
+}
+
+function convertKeys(
+  data: any,
+  convert: ConvertKeys,
+  deepConvert: (input: any) => any,
+  exclude: string[],
+) {
+  if (data == null || typeof data !== "object") return data;
+  if (exclude.length === 0) return deepConvert(data);
+
+  const patterns = exclude.map((pattern) => pattern.split("."));
+  return convertDeep(data, convert, patterns, []);
+}
+
+/**
+ * Convert keys to camelCase, leaving the keys at the excluded paths as is.
+ * Paths are dot-separated, `*` matches any key, e.g. `fields.*`.
+ */
+export function toCamelCase(data: any, exclude: string[] = []) {
+  return convertKeys(
+    data,
+    camelCaseKeys,
+    (input) => camelCase(input, { deep: true }),
+    exclude,
+  );
+}
+
+/**
+ * Convert keys to snake_case, leaving the keys at the excluded paths as is
+ */
+export function toSnakeCase(data: any, exclude: string[] = []) {
+  return convertKeys(
+    data,
+    snakeCaseKeys,
+    (input) => snakeCase(input, { deep: true }),
+    exclude,
+  );
+}
@@ -0,0 +1,135 @@
+import { CircuitOpenError, type HttpError } from "./errors.js";
+import type { CircuitBreakerOptions, CircuitState } from "./types/index.js";
+
+/**
+ * Circuit breaker failing fast while the API keeps failing.
+ * Opens once the failure rate of the recent requests reaches the threshold,
+ * lets probe requests through after the reset timeout and closes again
+ * when a probe succeeds.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private minimumRequests: number;
+  private windowSize: number;
+  private resetTimeout: number;
+  private halfOpenRequests: number;
+  private onStateChange?: CircuitBreakerOptions["onStateChange"];
+
+  private state: CircuitState = "closed";
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private probes = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowSize = Math.max(options.windowSize ?? 20, this.minimumRequests);
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.halfOpenRequests = Math.max(1, options.halfOpenRequests ?? 1);
+    this.onStateChange = options.onStateChange;
+  }
+
+  /**
+   * Let a request through, or reject it with a CircuitOpenError
+   */
+  acquire(method?: string, path?: string): void {
+    if (this.state === "open") {
+      const retryAfter = this.openedAt + this.resetTimeout - Date.now();
+      if (retryAfter > 0) {
+        throw new CircuitOpenError(
+          "MailerLite API: Circuit breaker is open, failing fast",
+          { method, path, retryAfter },
+        );
+      }
+      this.transition("half-open");
+    }
+
+    if (this.state === "half-open") {
+      if (this.probes >= this.halfOpenRequests) {
+        throw new CircuitOpenError(
+          "MailerLite API: Circuit breaker is half-open, waiting for probes",
+          { method, path, retryAfter: 0 },
+        );
+      }
+      this.probes++;
+    }
+  }
+
+  /**
+   * Record a request that got a response
+   */
+  recordSuccess(): void {
+    if (this.state === "half-open") {
+      this.transition("closed");
+      return;
+    }
+
+    this.record(false);
+  }
+
+  /**
+   * Record a failed request. 429s prove the API is up but do not count,
+   * since the rate limit handling takes care of them; other client errors
+   * count as successes.
+   */
+  recordError(error: HttpError): void {
+    const status = error.response?.status;
+
+    if (status === 429 || error.code === "ERR_CANCELED") {
+      if (this.state === "half-open") {
+        this.probes = Math.max(0, this.probes - 1);
+      }
+      return;
+    }
+
+    if (status !== undefined && status < 500) {
+      this.recordSuccess();
+      return;
+    }
+
+    if (this.state === "half-open") {
+      this.open();
+      return;
+    }
+
+    this.record(true);
+
+    const failures = this.outcomes.filter(Boolean).length;
+    if (
+      this.state === "closed" &&
+      this.outcomes.length >= this.minimumRequests &&
+      failures / this.outcomes.length >= this.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private record(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition("open");
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    if (previous === state) return;
+
+    this.state = state;
+    this.probes = 0;
+    if (state === "closed") {
+      this.outcomes = [];
+    }
+
+    this.onStateChange?.(state, previous);
+  }
+}
@@ -1,8 +1,27 @@
-import axios, { type AxiosInstance, type AxiosError } from "axios";
-import camelCase from "camelcase-keys";
-import snakeCase from "snakecase-keys";
-import type { Options } from "./types/index.js";
+import type {
+  DryRunResult,
+  HookRequest,
+  HookResponse,
+  HttpClient,
+  HttpRequestConfig,
+  HttpResponse,
+  LogContext,
+  Options,
+  TransportResponse,
+} from "./types/index.js";
 import { RateLimitHandler } from "./rateLimit.js";
+import { HttpError, MailerLiteError, createMailerLiteError } from "./errors.js";
+import { RequestQueue } from "./throttle.js";
+import { RetryPolicy } from "./retry.js";
+import { consoleLogger, redactHeaders } from "./logger.js";
+import { HookRunner } from "./hooks.js";
+import { toCamelCase, toSnakeCase } from "./caseConversion.js";
+import { ResponseCache } from "./cache.js";
+import { RequestCoalescer } from "./coalesce.js";
+import { CircuitBreaker } from "./circuitBreaker.js";
+import { DryRunRecorder } from "./dryRun.js";
+import { AuditLog, type AuditTrail } from "./audit.js";
+import { axiosTransport, buildURL, normalizeHeaders } from "./transport.js";
 import JSONbigint from "json-bigint";
 
 const JSONBigIntParser = JSONbigint({
@@ -22,117 +41,634 @@ const idReviver = (key: string, value: any) => {
   return value;
 };
 
+// Response bodies are parsed with BigInt-safe IDs whatever the transport
+const parseBody = (body: unknown) => {
+  if (typeof body !== "string" || !body) return body;
+
+  try {
+    const parsed = JSONBigIntParser.parse(body);
+    return JSON.parse(JSON.stringify(parsed), idReviver);
+  } catch {
+    // Not JSON, e.g. the HTML error page of a proxy
+    return body;
+  }
+};
+
+export interface MailerLiteRequestConfig extends HttpRequestConfig {
+  retryAttempt?: number;
+  rateLimitRetry?: boolean;
+  startTime?: number;
+  hookRequest?: HookRequest;
+  hookResponse?: HookResponse;
+  cacheHit?: boolean;
+  dryRunResult?: DryRunResult;
+  auditTrail?: AuditTrail;
+  raw?: boolean;
+}
+
+const API_KEY_HEADER = "X-MailerLite-ApiKey";
+
+const isApiKeyHeader = (name: string) =>
+  name.toLowerCase() === API_KEY_HEADER.toLowerCase();
+
+// Error of a wait aborted before the request was known, e.g. in the queue,
+// completed with the request
+const withConfig = (error: HttpError, config: MailerLiteRequestConfig) =>
+  error.config
+    ? error
+    : new HttpError(error.message, error.code, config, error.response);
+
+// Request headers as seen by hooks, without the API key
+const toHeaderMap = (headers: { [key: string]: string } = {}) =>
+  Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !isApiKeyHeader(name)),
+  );
+
+// Copy of the params with sorted keys, for stable request keys
+const sortKeys = (params: any) =>
+  params && typeof params === "object"
+    ? Object.fromEntries(
+        Object.keys(params)
+          .sort()
+          .map((key) => [key, params[key]]),
+      )
+    : params;
+
+export interface MailerLiteHttpClient extends HttpClient {
+  requestQueue: RequestQueue | null;
+  responseCache: ResponseCache | null;
+  requestCoalescer: RequestCoalescer | null;
+  circuitBreaker: CircuitBreaker | null;
+  dryRunRecorder: DryRunRecorder;
+  auditLog: AuditLog | null;
+}
+
 export default function MailerLiteClient(
   apiKey: string,
   {
-    axiosOptions = {
-      transformResponse: (data: any) => {
-        if (!data) return data;
-        const parsed = JSONBigIntParser.parse(data);
-        return JSON.parse(JSON.stringify(parsed), idReviver);
-      },
-    },
+    transport,
+    axiosOptions,
     baseURL = "https://api.mailerlite.com/api/v2/",
     useCaseConverter = true,
+    caseConversion = {},
     headers = {},
     enableRateLimit = true,
     rateLimitRetryAttempts = 3,
     rateLimitRetryDelay = 1000,
     onRateLimitHit,
     onRateLimitRetry,
+    throttle = false,
+    retry = true,
+    logger = consoleLogger,
+    debug = false,
+    hooks,
+    cache = false,
+    coalesce = false,
+    circuitBreaker: circuitBreakerOptions = false,
+    dryRun = false,
+    audit,
   }: Options = {},
-): AxiosInstance {
+): MailerLiteHttpClient {
   if (typeof apiKey !== "string") throw new Error("No API key provided");
 
-  const axiosConfig = {
-    ...axiosOptions,
-
-    baseURL,
-    headers: {
-      "Content-Type": "application/json",
-      "X-MailerLite-ApiKey": apiKey,
-      "User-Agent": "MailerLite API v2 Node",
-      ...headers,
-    },
+  const defaultHeaders = {
+    "Content-Type": "application/json",
+    "X-MailerLite-ApiKey": apiKey,
+    "User-Agent": "MailerLite API v2 Node",
+    ...headers,
   };
 
-  const client: AxiosInstance = axios.create(axiosConfig);
+  // axios stays the default, runtimes without it pass the fetch transport
+  const send = transport ?? axiosTransport(axiosOptions);
 
   // Initialize rate limit handler if enabled
   const rateLimitHandler = enableRateLimit
-    ? new RateLimitHandler({
-        enableRateLimit,
-        rateLimitRetryAttempts,
-        rateLimitRetryDelay,
-        onRateLimitHit,
-        onRateLimitRetry,
-      })
+    ? new RateLimitHandler(
+        {
+          enableRateLimit,
+          rateLimitRetryAttempts,
+          rateLimitRetryDelay,
+          onRateLimitHit,
+          onRateLimitRetry,
+        },
+        logger,
+      )
     : null;
 
-  if (useCaseConverter) {
-    client.interceptors.request.use(
-      (request) => {
-        if (request.data != null && typeof request.data === "object") {
-          request.data = snakeCase(request.data, { deep: true });
-        }
+  // Rate limit headers are needed for pacing even if retries are disabled
+  const rateLimitParser = rateLimitHandler ?? new RateLimitHandler({}, logger);
+
+  // Initialize the request queue if throttling is enabled
+  const requestQueue = throttle
+    ? new RequestQueue(throttle === true ? {} : throttle)
+    : null;
+
+  // Initialize the retry policy for transient failures
+  const retryPolicy = retry
+    ? new RetryPolicy(retry === true ? {} : retry)
+    : null;
+
+  // Initialize the hook pipeline if any hooks were given
+  const hookRunner = hooks ? new HookRunner(hooks) : null;
+
+  // Initialize the circuit breaker if enabled
+  const circuitBreaker = circuitBreakerOptions
+    ? new CircuitBreaker(
+        circuitBreakerOptions === true ? {} : circuitBreakerOptions,
+      )
+    : null;
+
+  // Dry runs can also be enabled per call, so requests are always recorded
+  const dryRunRecorder = new DryRunRecorder(
+    typeof dryRun === "object" ? dryRun : {},
+  );
+
+  // Initialize the audit log if a sink was given
+  const auditLog = audit ? new AuditLog(audit, logger) : null;
+
+  // Initialize the response cache if caching is enabled
+  const responseCache = cache
+    ? new ResponseCache(cache === true ? {} : cache, logger)
+    : null;
 
-        return request;
-      },
-      async (error) => await Promise.reject(error),
+  // Structured context of a request for the logger
+  const describeRequest = (
+    config: MailerLiteRequestConfig | undefined,
+    response?: HttpResponse,
+  ): LogContext => ({
+    method: config?.method?.toUpperCase(),
+    path: config?.url,
+    status: response?.status,
+    durationMs:
+      config?.startTime !== undefined
+        ? Date.now() - config.startTime
+        : undefined,
+    rateLimit: response
+      ? rateLimitParser.parseRateLimitHeaders(response)
+      : undefined,
+  });
+
+  // Requests currently holding a slot of the request queue
+  const queuedRequests = new WeakSet<object>();
+
+  // Requests let through by the circuit breaker, waiting for their outcome
+  const guardedRequests = new WeakSet<object>();
+
+  const releaseQueueSlot = (
+    config: object | undefined,
+    response: HttpResponse | undefined,
+  ) => {
+    if (!requestQueue || !config || !queuedRequests.has(config)) return;
+
+    queuedRequests.delete(config);
+    requestQueue.release(
+      response ? rateLimitParser.parseRateLimitHeaders(response) : null,
     );
-  }
+  };
 
-  client.interceptors.response.use(
-    (response) => {
-      // Handle rate limit information in successful responses
-      if (rateLimitHandler && response.headers) {
-        const rateLimitHeaders =
-          rateLimitHandler.parseRateLimitHeaders(response);
-        if (rateLimitHeaders && rateLimitHeaders.remaining <= 5) {
-          // Warn when approaching rate limit
-          console.warn(
-            `MailerLite API: Rate limit warning - ${rateLimitHeaders.remaining} requests remaining`,
-          );
-        }
+  // Excluded key paths of a request, or null if its keys are not converted
+  const caseExclusions = (config: MailerLiteRequestConfig) => {
+    const override = config.caseConversion;
+
+    if (override === false) return null;
+    if (typeof override === "object") return override.exclude ?? [];
+    if (override === true || useCaseConverter) {
+      return caseConversion.exclude ?? [];
+    }
+
+    return null;
+  };
+
+  // Transform a response into the value the API methods resolve to
+  const finishResponse = async (response: HttpResponse) => {
+    const config: MailerLiteRequestConfig = response.config;
+
+    // Short-circuited responses are already in their final shape
+    const shortCircuited = config.hookResponse || config.dryRunResult;
+
+    if (responseCache && !config.cacheHit && !shortCircuited) {
+      await responseCache.update(config, {
+        status: response.status,
+        headers: response.headers,
+        data: response.data,
+      });
+    }
+
+    const exclude = caseExclusions(config);
+    let data =
+      exclude && !shortCircuited
+        ? toCamelCase(response.data, exclude)
+        : response.data;
+
+    if (hookRunner && config.hookRequest) {
+      const hookResponse = await hookRunner.afterResponse(config.hookRequest, {
+        status: response.status,
+        headers: response.headers,
+        data,
+      });
+      data = hookResponse.data;
+    }
+
+    // Calls made through withResponse() keep the response envelope
+    if (config.raw) {
+      return {
+        data,
+        status: response.status,
+        headers: response.headers,
+        rateLimit: rateLimitParser.parseRateLimitHeaders(response),
+      };
+    }
+
+    return data;
+  };
+
+  // Reject with the final error, unless an onError hook recovers the call
+  const failRequest = async (
+    config: MailerLiteRequestConfig | undefined,
+    error: MailerLiteError,
+  ) => {
+    // Errors of nested rate limit retries are handled by the original request
+    if (hookRunner && config?.hookRequest && !config.rateLimitRetry) {
+      const recovered = await hookRunner.onError(config.hookRequest, error);
+      if (recovered) {
+        return config.raw ? { ...recovered, rateLimit: null } : recovered.data;
+      }
+    }
+
+    return await Promise.reject(error);
+  };
+
+  // Prepare an attempt of a request. Resolves to a response if the call is
+  // short-circuited by a hook or served from the cache.
+  const prepareRequest = async (
+    config: MailerLiteRequestConfig,
+  ): Promise<HttpResponse | undefined> => {
+    // Hooks run once per call, not again for retries
+    if (hookRunner && !config.hookRequest) {
+      const hookRequest: HookRequest = {
+        operation: config.operation,
+        method: (config.method ?? "get").toUpperCase(),
+        path: config.url ?? "",
+        params: config.params,
+        data: config.data,
+        headers: toHeaderMap(config.headers),
+      };
+
+      const hookResponse = await hookRunner.beforeRequest(hookRequest);
+
+      const apiKeyHeaders = Object.entries(config.headers ?? {}).filter(
+        ([name]) => isApiKeyHeader(name),
+      );
+      config.method = hookRequest.method.toLowerCase();
+      config.url = hookRequest.path;
+      config.params = hookRequest.params;
+      config.data = hookRequest.data;
+      config.headers = {
+        ...hookRequest.headers,
+        ...Object.fromEntries(apiKeyHeaders),
+      };
+      config.hookRequest = hookRequest;
+
+      // Short-circuit the call with the response given by the hook
+      if (hookResponse) {
+        config.hookResponse = hookResponse;
+        return { ...hookResponse, config };
       }
+    }
 
-      if (!useCaseConverter) return response.data;
+    // Serve cached responses without using up the rate limit
+    if (responseCache && !config.retryAttempt && !config.rateLimitRetry) {
+      const cached = await responseCache.get(config);
+      if (cached) {
+        config.cacheHit = true;
+        return { ...cached, config };
+      }
+    }
+
+    const exclude = caseExclusions(config);
+    if (exclude) {
+      config.data = toSnakeCase(config.data, exclude);
+    }
+
+    // Record mutations instead of sending them, as they would be sent
+    if (config.method !== "get" && (config.dryRun ?? Boolean(dryRun))) {
+      config.dryRunResult = dryRunRecorder.record({
+        operation: config.operation,
+        method: (config.method ?? "get").toUpperCase(),
+        path: config.url ?? "",
+        params: config.params,
+        data: config.data,
+        timestamp: new Date().toISOString(),
+      });
+      logger.info("MailerLite API: Dry run, request not sent", {
+        operation: config.operation,
+        method: config.dryRunResult.method,
+        path: config.dryRunResult.path,
+      });
+      return { status: 200, headers: {}, data: config.dryRunResult, config };
+    }
+
+    if (circuitBreaker) {
+      circuitBreaker.acquire(config.method?.toUpperCase(), config.url);
+      guardedRequests.add(config);
+    }
+
+    // Wait for a slot last, so nothing can fail while holding it
+    if (requestQueue) {
+      await requestQueue.acquire(config.signal);
+      queuedRequests.add(config);
+    }
+
+    config.startTime = Date.now();
+
+    if (debug) {
+      logger.debug("MailerLite API: Request", {
+        method: config.method?.toUpperCase(),
+        path: config.url,
+        params: config.params,
+        headers: redactHeaders(config.headers),
+        data: config.data,
+      });
+    }
+
+    return undefined;
+  };
+
+  // Send an attempt over the transport, rejecting on error statuses
+  const sendRequest = async (
+    config: MailerLiteRequestConfig,
+  ): Promise<HttpResponse> => {
+    if (config.signal?.aborted) {
+      throw new HttpError("canceled", "ERR_CANCELED", config);
+    }
+
+    let result: TransportResponse;
+    try {
+      result = await send({
+        method: (config.method ?? "get").toUpperCase(),
+        url: buildURL(
+          config.baseURL ?? baseURL,
+          config.url ?? "",
+          config.params,
+        ),
+        headers: config.headers ?? {},
+        body:
+          config.data === undefined || typeof config.data === "string"
+            ? config.data
+            : JSON.stringify(config.data),
+        signal: config.signal,
+        timeout: config.timeout,
+      });
+    } catch (error) {
+      const { message } = error as HttpError;
+      const code = config.signal?.aborted
+        ? "ERR_CANCELED"
+        : ((error as HttpError).code ?? "ERR_NETWORK");
+
+      if (auditLog && config.method !== "get") {
+        config.auditTrail = auditLog.record(config, config.auditTrail, {
+          error: code,
+        });
+      }
+      throw new HttpError(message, code, config);
+    }
+
+    const response: HttpResponse = {
+      status: result.status,
+      headers: normalizeHeaders(result.headers),
+      data: parseBody(result.body),
+      config,
+    };
 
-      return camelCase(response.data, { deep: true });
-    },
-    async (error: AxiosError) => {
-      // Handle rate limit errors if rate limiting is enabled
-      if (rateLimitHandler && rateLimitHandler.isRateLimitError(error)) {
+    // Retries share the trail of the first attempt, linking their entries
+    if (auditLog && config.method !== "get") {
+      config.auditTrail = auditLog.record(config, config.auditTrail, {
+        status: response.status,
+        data: response.data,
+      });
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+        config,
+        response,
+      );
+    }
+
+    return response;
+  };
+
+  const handleResponse = async (response: HttpResponse) => {
+    const config: MailerLiteRequestConfig = response.config;
+
+    releaseQueueSlot(config, response);
+
+    if (circuitBreaker && guardedRequests.has(config)) {
+      guardedRequests.delete(config);
+      circuitBreaker.recordSuccess();
+    }
+
+    // Rate limit retries are transformed by the original request
+    if (config.rateLimitRetry) {
+      return response;
+    }
+
+    // Cached responses carry stale rate limit headers
+    if (config.cacheHit) {
+      return await finishResponse(response);
+    }
+
+    const context = describeRequest(config, response);
+
+    if (debug) {
+      logger.debug("MailerLite API: Response", {
+        ...context,
+        data: response.data,
+      });
+    }
+
+    // Handle rate limit information in successful responses
+    if (rateLimitHandler) {
+      const rateLimitHeaders = rateLimitHandler.parseRateLimitHeaders(response);
+      if (rateLimitHeaders && rateLimitHeaders.remaining <= 5) {
+        // Warn when approaching rate limit
+        logger.warn(
+          `MailerLite API: Rate limit warning - ${rateLimitHeaders.remaining} requests remaining`,
+          context,
+        );
+      }
+    }
+
+    return await finishResponse(response);
+  };
+
+  const handleError = async (
+    config: MailerLiteRequestConfig,
+    failure: unknown,
+  ): Promise<any> => {
+    // Errors raised by the client itself are already typed
+    if (failure instanceof MailerLiteError) {
+      return await failRequest(config, failure);
+    }
+
+    // Anything else, e.g. an error thrown by a hook, is a failed request
+    const error =
+      failure instanceof HttpError
+        ? withConfig(failure, config)
+        : new HttpError((failure as Error)?.message, undefined, config);
+
+    releaseQueueSlot(config, error.response);
+
+    if (circuitBreaker && guardedRequests.has(config)) {
+      guardedRequests.delete(config);
+      circuitBreaker.recordError(error);
+    }
+
+    if (debug) {
+      logger.debug("MailerLite API: Request failed", {
+        ...describeRequest(config, error.response),
+        code: error.code,
+        data: error.response?.data,
+      });
+    }
+
+    // Let the original request decide whether to retry again
+    if (config.rateLimitRetry && error.response?.status === 429) {
+      throw error;
+    }
+
+    // Handle rate limit errors if rate limiting is enabled
+    if (rateLimitHandler && rateLimitHandler.isRateLimitError(error)) {
+      try {
+        // Make the request again with the same configuration
+        const retryFn = async () =>
+          await request({ ...config, rateLimitRetry: true });
+
+        // Handle the rate limit with automatic retry
+        const retryResponse = await rateLimitHandler.handleRateLimit(
+          error,
+          retryFn,
+        );
+
+        // Apply the same response transformation as successful responses
+        return await finishResponse(retryResponse);
+      } catch (rateLimitError) {
+        // If rate limit handling fails, reject with the rate limit error
+        return await failRequest(
+          config,
+          rateLimitError instanceof MailerLiteError
+            ? rateLimitError
+            : createMailerLiteError(
+                withConfig(rateLimitError as HttpError, config),
+                useCaseConverter,
+              ),
+        );
+      }
+    }
+
+    // Retry transient server and network failures
+    if (retryPolicy) {
+      const attempt = config.retryAttempt ?? 1;
+
+      if (retryPolicy.shouldRetry(error, attempt, config.retry)) {
+        logger.warn("MailerLite API: Retrying failed request", {
+          ...describeRequest(config, error.response),
+          code: error.code,
+          attempt,
+        });
         try {
-          // Create a retry function that repeats the original request
-          const retryFn = async () => {
-            const config = error.config;
-            if (!config) throw error;
-
-            // Make the request again with the same configuration
-            const retryResponse = await client.request(config);
-            return retryResponse;
-          };
-
-          // Handle the rate limit with automatic retry
-          const retryResponse = await rateLimitHandler.handleRateLimit(
-            error,
-            retryFn,
+          await retryPolicy.wait(attempt, config.signal);
+        } catch (abort) {
+          return await failRequest(
+            config,
+            createMailerLiteError(
+              withConfig(abort as HttpError, config),
+              useCaseConverter,
+            ),
           );
-
-          // Apply the same response transformation as successful responses
-          if (!useCaseConverter) return retryResponse.data;
-          return camelCase(retryResponse.data, { deep: true });
-        } catch (rateLimitError) {
-          // If rate limit handling fails, reject with the rate limit error
-          return await Promise.reject(rateLimitError);
         }
+
+        return await request({ ...config, retryAttempt: attempt + 1 });
       }
+    }
 
-      // For non-rate-limit errors, reject as usual
-      return await Promise.reject(error);
-    },
-  );
+    // Rate limiting is disabled, but a 429 should still be recognisable
+    if (error.response?.status === 429) {
+      return await failRequest(
+        config,
+        new RateLimitHandler().createRateLimitError(error),
+      );
+    }
+
+    // For non-rate-limit errors, reject with a typed error
+    return await failRequest(
+      config,
+      createMailerLiteError(error, useCaseConverter),
+    );
+  };
 
-  return client;
+  // Run a request through the whole pipeline
+  const request = async (input: MailerLiteRequestConfig): Promise<any> => {
+    const config: MailerLiteRequestConfig = {
+      ...input,
+      method: (input.method ?? "get").toLowerCase(),
+      baseURL: input.baseURL ?? baseURL,
+      headers: { ...defaultHeaders, ...input.headers },
+    };
+
+    let response: HttpResponse;
+    try {
+      response = (await prepareRequest(config)) ?? (await sendRequest(config));
+    } catch (error) {
+      return await handleError(config, error);
+    }
+
+    return await handleResponse(response);
+  };
+
+  // Share identical concurrent GETs, unless they can be aborted on their own
+  const requestCoalescer = coalesce ? new RequestCoalescer() : null;
+
+  const get = async (url: string, config: MailerLiteRequestConfig = {}) => {
+    const run = async () => await request({ ...config, method: "get", url });
+    if (!requestCoalescer || config.signal) return await run();
+
+    // Anything a call sets for itself may change the response it gets
+    const key = JSON.stringify([
+      buildURL(config.baseURL ?? baseURL, url),
+      sortKeys(config.params),
+      sortKeys(config.headers) ?? null,
+      config.raw ?? false,
+      config.caseConversion ?? null,
+      config.timeout ?? null,
+      config.cache ?? null,
+      config.dryRun ?? null,
+    ]);
+    return await requestCoalescer.run(key, run);
+  };
+
+  return {
+    request,
+    get,
+    delete: async (url: string, config: MailerLiteRequestConfig = {}) =>
+      await request({ ...config, method: "delete", url }),
+    post: async (
+      url: string,
+      data?: any,
+      config: MailerLiteRequestConfig = {},
+    ) => await request({ ...config, method: "post", url, data }),
+    put: async (
+      url: string,
+      data?: any,
+      config: MailerLiteRequestConfig = {},
+    ) => await request({ ...config, method: "put", url, data }),
+    requestQueue,
+    responseCache,
+    requestCoalescer,
+    circuitBreaker,
+    dryRunRecorder,
+    auditLog,
+  };
 }
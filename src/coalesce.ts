@@ -0,0 +1,41 @@
+import type { CoalescingStats } from "./types/index.js";
+
+/**
+ * Shares one pending request between identical concurrent calls
+ */
+export class RequestCoalescer {
+  private pending = new Map<string, Promise<unknown>>();
+  private requests = 0;
+  private coalesced = 0;
+
+  /**
+   * Run the request, or join the identical one already in flight.
+   * Joined calls get a copy of the result, so callers cannot affect
+   * each other by mutating it.
+   */
+  async run<T>(key: string, request: () => Promise<T>): Promise<T> {
+    this.requests++;
+
+    const inFlight = this.pending.get(key) as Promise<T> | undefined;
+    if (inFlight) {
+      this.coalesced++;
+      return structuredClone(await inFlight);
+    }
+
+    const promise = request().finally(() => this.pending.delete(key));
+    this.pending.set(key, promise);
+
+    return await promise;
+  }
+
+  /**
+   * Counters of the calls seen and the requests saved
+   */
+  getStats(): CoalescingStats {
+    return {
+      requests: this.requests,
+      coalesced: this.coalesced,
+      inFlight: this.pending.size,
+    };
+  }
+}
@@ -0,0 +1,395 @@
+import type {
+  CsvExportOptions,
+  CsvImportOptions,
+  CsvImportReport,
+  CsvParseOptions,
+  CsvRowError,
+  CsvSubscriberOptions,
+  CsvSubscribers,
+  CustomFieldTypes,
+  GroupSubscriberData,
+  MailerLiteClient,
+  Subscriber,
+} from "./types/index.js";
+
+const DELIMITERS = [",", ";", "\t", "|"];
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+const TYPES = ["active", "unsubscribed", "unconfirmed"];
+const FLAGS = ["resubscribe", "autoresponders"];
+const BOOLEANS = new Map([
+  ["true", true],
+  ["yes", true],
+  ["1", true],
+  ["false", false],
+  ["no", false],
+  ["0", false],
+]);
+
+// Subscriber properties which can be exported, besides the custom fields
+const PROPERTIES = [
+  "id",
+  "email",
+  "name",
+  "type",
+  "sent",
+  "opened",
+  "openedRate",
+  "clicked",
+  "clickedRate",
+  "signupIp",
+  "signupTimestamp",
+  "confirmationIp",
+  "confirmationTimestamp",
+  "dateSubscribe",
+  "dateUnsubscribe",
+  "dateCreated",
+  "dateUpdated",
+];
+
+// Headers other tools use for the subscriber properties
+const ALIASES = new Map([
+  ["e_mail", "email"],
+  ["email_address", "email"],
+  ["first_name", "name"],
+  ["status", "type"],
+]);
+
+// Start of a value a spreadsheet would run as a formula. Values with
+// quotes before it get one more as well, so importing them removes
+// exactly the quote the export added.
+const FORMULA = /^'*[=+\-@\t\r]/;
+
+interface CsvRecord {
+  line: number;
+  values: string[];
+}
+
+const escapeValue = (
+  value: unknown,
+  delimiter: string,
+  escapeFormulas: boolean,
+) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (escapeFormulas && typeof value === "string" && FORMULA.test(text)) {
+    text = `'${text}`;
+  }
+
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, "$&$&")}"`
+    : text;
+};
+
+// Value as it was before the export escaped it
+const unescapeFormula = (text: string) =>
+  text.startsWith("'") && FORMULA.test(text) ? text.slice(1) : text;
+
+const stripBom = (text: string) =>
+  text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+// Delimiter occurring most often in the header line, outside of quotes
+const detectDelimiter = (text: string) => {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === "\"") quoted = !quoted;
+    else if (!quoted && (char === "\n" || char === "\r")) break;
+    else if (!quoted && counts.has(char)) {
+      counts.set(char, (counts.get(char) as number) + 1);
+    }
+  }
+
+  let detected = ",";
+  for (const [delimiter, count] of counts) {
+    if (count > (counts.get(detected) as number)) detected = delimiter;
+  }
+  return detected;
+};
+
+const parseRecords = (text: string, delimiter: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let values: string[] = [];
+  let value = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let index = 0;
+
+  const endValue = () => {
+    values.push(value);
+    value = "";
+  };
+  const endRecord = () => {
+    endValue();
+    records.push({ line: recordLine, values });
+    values = [];
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === "\"" && text[index + 1] === "\"") {
+        value += "\"";
+        index += 2;
+        continue;
+      }
+      if (char === "\"") quoted = false;
+      else {
+        if (char === "\n" || (char === "\r" && text[index + 1] !== "\n")) {
+          line++;
+        }
+        value += char;
+      }
+      index++;
+      continue;
+    }
+
+    if (char === "\"" && value === "") {
+      quoted = true;
+    } else if (text.startsWith(delimiter, index)) {
+      endValue();
+      index += delimiter.length;
+      continue;
+    } else if (char === "\r" || char === "\n") {
+      endRecord();
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      line++;
+      recordLine = line;
+    } else {
+      // A quote inside an unquoted value is taken as it is
+      value += char;
+    }
+    index++;
+  }
+
+  if (quoted) {
+    throw new SyntaxError(
+      `Unterminated quoted value in the row starting on line ${recordLine}`,
+    );
+  }
+  if (value !== "" || values.length > 0) endRecord();
+
+  // Blank lines carry no record
+  return records.filter(
+    (record) => record.values.length > 1 || record.values[0] !== "",
+  );
+};
+
+const normalizeHeader = (header: string) => {
+  const name = header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+  return ALIASES.get(name) ?? name;
+};
+
+/**
+ * Parse CSV text into rows of values. Values may be quoted, with `""` for a
+ * quote and line breaks inside quotes; a byte order mark and blank lines are
+ * skipped.
+ */
+export function parseCsv(
+  text: string,
+  { delimiter }: CsvParseOptions = {},
+): string[][] {
+  const csv = stripBom(text);
+
+  return parseRecords(csv, delimiter ?? detectDelimiter(csv)).map(
+    ({ values }) => values,
+  );
+}
+
+/**
+ * Parse CSV text with a header line into subscribers for
+ * `addSubscribersToGroup`. Rows which do not validate are reported in
+ * `errors` instead.
+ */
+export function parseSubscribersCsv<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+>(
+  text: string,
+  { delimiter, columns = {}, fields }: CsvSubscriberOptions = {},
+): CsvSubscribers<TFields> {
+  const csv = stripBom(text);
+  const [header, ...rows] = parseRecords(
+    csv,
+    delimiter ?? detectDelimiter(csv),
+  );
+  const fieldTypes = new Map(fields?.map(({ key, type }) => [key, type]));
+  const unmappedHeaders: string[] = [];
+
+  const targets = (header?.values ?? []).map((name) => {
+    const target = Object.prototype.hasOwnProperty.call(columns, name)
+      ? columns[name]
+      : normalizeHeader(name) || null;
+    const known =
+      target === null ||
+      target === "email" ||
+      target === "name" ||
+      target === "type" ||
+      FLAGS.includes(target) ||
+      !fields ||
+      fieldTypes.has(target);
+
+    if (known) return target;
+    unmappedHeaders.push(name);
+    return null;
+  });
+
+  if (header && !targets.includes("email")) {
+    throw new Error("The CSV header has no email column");
+  }
+
+  const subscribers: GroupSubscriberData<TFields>[] = [];
+  const errors: CsvRowError[] = [];
+
+  for (const { line, values } of rows) {
+    const subscriber: { [key: string]: any } = {};
+    const subscriberFields: { [key: string]: string | number } = {};
+    const messages: string[] = [];
+
+    if (values.length !== targets.length) {
+      messages.push(`Expected ${targets.length} values, got ${values.length}`);
+    }
+
+    targets.forEach((target, index) => {
+      const value = unescapeFormula(values[index]?.trim() ?? "");
+      if (target === null || value === "") return;
+
+      if (target === "email" || target === "name") {
+        subscriber[target] = value;
+      } else if (target === "type") {
+        if (TYPES.includes(value.toLowerCase())) {
+          subscriber.type = value.toLowerCase();
+        } else messages.push(`Invalid type "${value}"`);
+      } else if (FLAGS.includes(target)) {
+        const flag = BOOLEANS.get(value.toLowerCase());
+        if (flag === undefined) messages.push(`Invalid ${target} "${value}"`);
+        else subscriber[target] = flag;
+      } else if (fieldTypes.get(target) === "NUMBER") {
+        const number = Number(value);
+        if (Number.isNaN(number)) {
+          messages.push(`Invalid number "${value}" for ${target}`);
+        } else subscriberFields[target] = number;
+      } else {
+        subscriberFields[target] = value;
+      }
+    });
+
+    if (!subscriber.email) messages.push("Missing email");
+    else if (!EMAIL.test(subscriber.email)) messages.push("Invalid email");
+
+    if (messages.length > 0) {
+      errors.push({
+        line,
+        ...(subscriber.email && { email: subscriber.email }),
+        message: messages.join(", "),
+      });
+      continue;
+    }
+
+    if (Object.keys(subscriberFields).length > 0) {
+      subscriber.fields = subscriberFields;
+    }
+    subscribers.push(subscriber as GroupSubscriberData<TFields>);
+  }
+
+  return { subscribers, errors, unmappedHeaders };
+}
+
+/**
+ * Stream the subscribers of the account, or of a group, as CSV text, one
+ * line at a time starting with the header.
+ */
+export async function* exportSubscribersCsv<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+>(
+  client: Pick<
+    MailerLiteClient<TFields>,
+    "getFields" | "iterateSubscribers" | "iterateGroupSubscribers"
+  >,
+  {
+    groupId,
+    type,
+    columns,
+    delimiter = ",",
+    bom = false,
+    escapeFormulas = true,
+    ...options
+  }: CsvExportOptions = {},
+): AsyncGenerator<string, void, undefined> {
+  const fieldKeys = (await client.getFields(options)).map(({ key }) => key);
+  const selected = columns ?? [
+    "email",
+    "name",
+    "type",
+    ...fieldKeys.filter((key) => key !== "email" && key !== "name"),
+  ];
+
+  for (const column of selected) {
+    if (!PROPERTIES.includes(column) && !fieldKeys.includes(column)) {
+      throw new TypeError(`Unknown column "${column}"`);
+    }
+  }
+
+  const toLine = (values: unknown[]) =>
+    values
+      .map((value) => escapeValue(value, delimiter, escapeFormulas))
+      .join(delimiter) + "\r\n";
+
+  yield (bom ? "\uFEFF" : "") + toLine(selected);
+
+  const params = type ? { type } : {};
+  const subscribers =
+    groupId === undefined
+      ? client.iterateSubscribers(params, options)
+      : client.iterateGroupSubscribers(groupId, params, options);
+
+  for await (const subscriber of subscribers) {
+    const values = new Map<string, unknown>(
+      (subscriber.fields as { key: string; value: unknown }[]).map(
+        ({ key, value }) => [key, value],
+      ),
+    );
+
+    yield toLine(
+      selected.map((column) =>
+        PROPERTIES.includes(column)
+          ? subscriber[column as keyof Subscriber]
+          : values.get(column),
+      ),
+    );
+  }
+}
+
+/**
+ * Parse CSV text with `parseSubscribersCsv`, using the fields of the
+ * account, and import the valid rows into a group in chunks.
+ */
+export async function importSubscribersCsv<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+>(
+  client: Pick<
+    MailerLiteClient<TFields>,
+    "getFields" | "importSubscribersToGroup"
+  >,
+  groupId: number | string,
+  text: string,
+  options: CsvImportOptions = {},
+): Promise<CsvImportReport<TFields>> {
+  const fields = await client.getFields(options);
+  const { subscribers, errors, unmappedHeaders } = parseSubscribersCsv<TFields>(
+    text,
+    { ...options, fields },
+  );
+
+  const report =
+    subscribers.length > 0
+      ? await client.importSubscribersToGroup(groupId, subscribers, options)
+      : { imported: [], updated: [], unchanged: [], errors: [], unknown: [] };
+
+  return { ...report, rowErrors: errors, unmappedHeaders };
+}
@@ -0,0 +1,49 @@
+import type {
+  DryRunOptions,
+  DryRunRequest,
+  DryRunResult,
+} from "./types/index.js";
+
+/**
+ * Records the mutating requests held back in dry-run mode
+ */
+export class DryRunRecorder {
+  private requests: DryRunRequest[] = [];
+  private onRequest?: DryRunOptions["onRequest"];
+
+  constructor(options: DryRunOptions = {}) {
+    this.onRequest = options.onRequest;
+  }
+
+  /**
+   * Record a request and build the result the call resolves to
+   */
+  record(request: DryRunRequest): DryRunResult {
+    this.requests.push(request);
+    this.onRequest?.(request);
+
+    return { dryRun: true, ...request };
+  }
+
+  /**
+   * Requests recorded so far, oldest first
+   */
+  getRequests(): DryRunRequest[] {
+    return [...this.requests];
+  }
+
+  clear(): void {
+    this.requests = [];
+  }
+}
+
+/**
+ * Check if a call result is the synthetic result of a dry run
+ */
+export function isDryRunResult(value: unknown): value is DryRunResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as DryRunResult).dryRun === true
+  );
+}
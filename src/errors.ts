@@ -0,0 +1,210 @@
+import camelCase from "camelcase-keys";
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  RateLimitHeaders,
+} from "./types/index.js";
+
+export interface MailerLiteErrorDetails {
+  method?: string;
+  path?: string;
+  status?: number;
+  code?: number | string;
+  data?: any;
+  cause?: unknown;
+}
+
+/**
+ * Failed request as seen by the client, before it is mapped to a
+ * MailerLiteError. Carries the response if the API answered at all.
+ */
+export class HttpError extends Error {
+  readonly code?: string;
+  readonly config?: HttpRequestConfig;
+  readonly response?: HttpResponse;
+
+  constructor(
+    message: string,
+    code?: string,
+    config?: HttpRequestConfig,
+    response?: HttpResponse,
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.config = config;
+    this.response = response;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Base class for every error rejected by the MailerLite client
+ */
+export class MailerLiteError extends Error {
+  readonly isMailerLiteError = true;
+  readonly method?: string;
+  readonly path?: string;
+  readonly status?: number;
+  readonly code?: number | string;
+  readonly data?: any;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: MailerLiteErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.method = details.method;
+    this.path = details.path;
+    this.status = details.status;
+    this.code = details.code;
+    this.data = details.data;
+    this.cause = details.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * 401 and 403 responses - missing, invalid or revoked API key
+ */
+export class AuthenticationError extends MailerLiteError {}
+
+/**
+ * 404 responses - the requested resource does not exist
+ */
+export class NotFoundError extends MailerLiteError {}
+
+/**
+ * 400 and 422 responses - the API rejected the request payload
+ */
+export class ValidationError extends MailerLiteError {
+  readonly fields: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    details: MailerLiteErrorDetails & {
+      fields?: Record<string, string[]>;
+    } = {},
+  ) {
+    super(message, details);
+    this.fields = details.fields ?? {};
+  }
+}
+
+/**
+ * 429 responses - the rate limit was exceeded and could not be recovered from
+ */
+export class RateLimitError extends MailerLiteError {
+  readonly isRateLimitError = true;
+  readonly rateLimitHeaders: RateLimitHeaders;
+
+  constructor(
+    message: string,
+    details: MailerLiteErrorDetails & { rateLimitHeaders: RateLimitHeaders },
+  ) {
+    super(message, details);
+    this.rateLimitHeaders = details.rateLimitHeaders;
+  }
+}
+
+/**
+ * 5xx responses - MailerLite failed to handle the request
+ */
+export class ServerError extends MailerLiteError {}
+
+/**
+ * The call was cancelled through its AbortSignal
+ */
+export class AbortError extends MailerLiteError {}
+
+/**
+ * The circuit breaker is open and the request was not sent
+ */
+export class CircuitOpenError extends MailerLiteError {
+  readonly retryAfter: number;
+
+  constructor(
+    message: string,
+    details: MailerLiteErrorDetails & { retryAfter: number },
+  ) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Extract the per-field messages from a validation error payload
+ */
+function parseFieldErrors(payload: any): Record<string, string[]> {
+  const details =
+    payload?.error?.errorDetails ??
+    payload?.error?.errors ??
+    payload?.errorDetails ??
+    payload?.errors;
+
+  if (!details || typeof details !== "object" || Array.isArray(details)) {
+    return {};
+  }
+
+  const fields: Record<string, string[]> = {};
+  for (const [field, messages] of Object.entries(details)) {
+    if (Array.isArray(messages)) {
+      fields[field] = messages.map(String);
+    } else if (messages != null) {
+      fields[field] = [String(messages)];
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Convert a failed request into the matching MailerLiteError subclass
+ */
+export function createMailerLiteError(
+  error: HttpError,
+  useCaseConverter = true,
+): MailerLiteError {
+  const response = error.response;
+  const rawData = response?.data;
+  const data =
+    useCaseConverter && rawData != null && typeof rawData === "object"
+      ? camelCase(rawData as Record<string, unknown>, { deep: true })
+      : rawData;
+
+  const details: MailerLiteErrorDetails = {
+    method: error.config?.method?.toUpperCase(),
+    path: error.config?.url,
+    status: response?.status,
+    code: (data as any)?.error?.code ?? error.code,
+    data,
+    cause: error,
+  };
+
+  const apiMessage = (data as any)?.error?.message ?? (data as any)?.message;
+  const message =
+    typeof apiMessage === "string" && apiMessage.length > 0
+      ? apiMessage
+      : error.message;
+  const status = response?.status;
+
+  if (error.code === "ERR_CANCELED") {
+    return new AbortError("The request was aborted", details);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, {
+      ...details,
+      fields: parseFieldErrors(data),
+    });
+  }
+  if (status !== undefined && status >= 500) {
+    return new ServerError(message, details);
+  }
+
+  return new MailerLiteError(message, details);
+}
@@ -0,0 +1,1181 @@
+import MailerLite from "./index.js";
+import { silentLogger } from "./logger.js";
+import type {
+  CustomFieldTypes,
+  FakeFaultOptions,
+  FakeMailerLite,
+  FakeMailerLiteOptions,
+  FakeRateLimitOptions,
+  FakeSegmentData,
+  FakeValidationErrorOptions,
+  FieldType,
+  SubscriberType,
+  Transport,
+  TransportResponse,
+} from "./types/index.js";
+
+const SUBSCRIBER_TYPES = "active|unsubscribed|bounced|junk|unconfirmed";
+const ACTIVITY_TYPES =
+  "opens|clicks|junks|bounces|unsubscribes|forwards|sendings";
+
+// Fields every account has, which cannot be removed
+const DEFAULT_FIELDS: [string, string][] = [
+  ["email", "Email"],
+  ["name", "Name"],
+  ["last_name", "Last name"],
+  ["company", "Company"],
+  ["country", "Country"],
+  ["city", "City"],
+  ["phone", "Phone"],
+  ["state", "State"],
+  ["zip", "ZIP"],
+];
+
+const TIMEZONES = [
+  { id: 1, time: 0, gmt: "+00:00", title: "(GMT+00:00) UTC", timezone: "UTC" },
+  {
+    id: 2,
+    time: 3600,
+    gmt: "+01:00",
+    title: "(GMT+01:00) Berlin",
+    timezone: "Europe/Berlin",
+  },
+];
+
+const DEFAULT_LIMIT = 100;
+
+// Timestamp in the format of the API, e.g. `2024-01-31 12:00:00`
+const timestamp = () => new Date().toISOString().slice(0, 19).replace("T", " ");
+
+const isEmail = (value: unknown): value is string =>
+  typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+type Query = { [key: string]: string };
+
+interface FakeResponse {
+  status: number;
+  headers?: { [key: string]: string };
+  data?: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  operation: string;
+  handler: (params: string[], query: Query, body: any) => unknown;
+}
+
+interface Fault {
+  operation?: string;
+  remaining: number;
+  response: () => FakeResponse;
+}
+
+interface StoredField {
+  id: number;
+  title: string;
+  key: string;
+  type: FieldType;
+  date_created: string;
+  date_updated: string;
+}
+
+interface StoredGroup {
+  id: number;
+  name: string;
+  members: Set<number>;
+  date_created: string;
+  date_updated: string;
+}
+
+interface StoredActivity {
+  date: string;
+  report_id: number;
+  subject: string;
+  type: string;
+}
+
+interface StoredSubscriber {
+  id: number;
+  email: string;
+  name: string;
+  type: SubscriberType;
+  fields: { [key: string]: string | number | null };
+  sent: number;
+  opened: number;
+  clicked: number;
+  activity: StoredActivity[];
+  date_subscribe: string | null;
+  date_unsubscribe: string | null;
+  date_created: string;
+  date_updated: string | null;
+}
+
+interface StoredCampaign {
+  id: number;
+  name: string;
+  subject?: string;
+  type: "regular" | "ab";
+  status: "sent" | "draft" | "outbox";
+  groups: number[];
+  segments: number[];
+  content?: { html: string; plain: string };
+  total_recipients: number;
+  date_created: string;
+  date_send: string | null;
+}
+
+interface StoredWebhook {
+  id: number;
+  event: string;
+  url: string;
+  date_created: string;
+  date_updated: string;
+}
+
+type ImportOutcome = "imported" | "updated" | "unchanged";
+
+/**
+ * Error answered by the fake API, turned into an error response
+ */
+class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: { [field: string]: string[] },
+  ) {
+    super(message);
+  }
+
+  toResponse(): FakeResponse {
+    return {
+      status: this.status,
+      data: {
+        error: {
+          code: this.status,
+          message: this.message,
+          ...(this.details && { error_details: this.details }),
+        },
+      },
+    };
+  }
+}
+
+const notFound = (resource: string) =>
+  new FakeApiError(404, `${resource} not found`);
+
+const invalid = (field: string, message: string) =>
+  new FakeApiError(422, "Validation failed", { [field]: [message] });
+
+const paginate = <T>(items: T[], query: Query) => {
+  const offset = Number(query.offset ?? 0);
+  const limit = Number(query.limit ?? DEFAULT_LIMIT);
+  return items.slice(offset, offset + limit);
+};
+
+/**
+ * In-memory MailerLite API answering the requests of a client through its
+ * transport, with snake_cased payloads like the real API
+ */
+class FakeMailerLiteServer {
+  private seedSegments: FakeSegmentData[];
+  private nextId = 1;
+  private faults: Fault[] = [];
+  private fields = new Map<number, StoredField>();
+  private groups = new Map<number, StoredGroup>();
+  private subscribers = new Map<number, StoredSubscriber>();
+  private campaigns = new Map<number, StoredCampaign>();
+  private webhooks = new Map<number, StoredWebhook>();
+  private segments: { [key: string]: any }[] = [];
+  private imports = new Map<string, unknown>();
+  private doubleOptin = false;
+  private routes: Route[];
+
+  constructor(segments: FakeSegmentData[] = []) {
+    this.seedSegments = segments;
+    this.routes = this.createRoutes();
+    this.reset();
+  }
+
+  reset(): void {
+    const now = timestamp();
+
+    this.nextId = 1;
+    this.faults = [];
+    this.fields.clear();
+    this.groups.clear();
+    this.subscribers.clear();
+    this.campaigns.clear();
+    this.webhooks.clear();
+    this.imports.clear();
+    this.doubleOptin = false;
+
+    for (const [key, title] of DEFAULT_FIELDS) {
+      const id = this.nextId++;
+      this.fields.set(id, {
+        id,
+        title,
+        key,
+        type: "TEXT",
+        date_created: now,
+        date_updated: now,
+      });
+    }
+
+    this.segments = this.seedSegments.map((segment) => ({
+      id: this.nextId++,
+      title: segment.title,
+      filter: segment.filter ?? {},
+      total: segment.total ?? 0,
+      sent: 0,
+      opened: 0,
+      clicked: 0,
+      created_at: now,
+      updated_at: now,
+    }));
+  }
+
+  addFault(options: FakeFaultOptions, response: () => FakeResponse): void {
+    this.faults.push({
+      operation: options.operation,
+      remaining: options.times ?? 1,
+      response,
+    });
+  }
+
+  readonly transport: Transport = async (request) => {
+    const url = new URL(request.url);
+    const path = url.pathname
+      .replace(/^\/api\/(v2|master)\//, "")
+      .replace(/^\/+|\/+$/g, "");
+    const query = Object.fromEntries(url.searchParams);
+    const body = request.body ? JSON.parse(request.body) : {};
+
+    return this.toTransportResponse(
+      this.handle(request.method, path, query, body, true),
+    );
+  };
+
+  private toTransportResponse(response: FakeResponse): TransportResponse {
+    return {
+      status: response.status,
+      headers: { "content-type": "application/json", ...response.headers },
+      body: response.data === undefined ? "" : JSON.stringify(response.data),
+    };
+  }
+
+  private handle(
+    method: string,
+    path: string,
+    query: Query,
+    body: any,
+    withFaults: boolean,
+  ): FakeResponse {
+    for (const route of this.routes) {
+      const match = route.method === method && route.pattern.exec(path);
+      if (!match) continue;
+
+      const fault = withFaults ? this.takeFault(route.operation) : undefined;
+      if (fault) return fault;
+
+      try {
+        const params = match.slice(1).map(decodeURIComponent);
+        const data = route.handler(params, query, body);
+        return data === undefined ? { status: 204 } : { status: 200, data };
+      } catch (error) {
+        if (error instanceof FakeApiError) return error.toResponse();
+        throw error;
+      }
+    }
+
+    return notFound("Resource").toResponse();
+  }
+
+  private takeFault(operation: string): FakeResponse | undefined {
+    const fault = this.faults.find(
+      (item) =>
+        !item.operation ||
+        item.operation === operation ||
+        operation.endsWith(`.${item.operation}`),
+    );
+    if (!fault) return undefined;
+
+    fault.remaining--;
+    if (fault.remaining <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+
+    return fault.response();
+  }
+
+  private createRoutes(): Route[] {
+    const route = (
+      method: string,
+      pattern: string,
+      operation: string,
+      handler: Route["handler"],
+    ): Route => ({
+      method,
+      pattern: new RegExp(`^${pattern}$`),
+      operation,
+      handler,
+    });
+
+    return [
+      route("GET", "me", "account.getAccountRaw", () => ({
+        account: {
+          id: "1",
+          email: "owner@example.com",
+          from: "owner@example.com",
+          name: "Fake account",
+          subdomain: "fake",
+          timezone: TIMEZONES[0],
+        },
+      })),
+      route("POST", "batch", "batch.batch", (_, __, body) =>
+        this.batch(body.requests ?? []),
+      ),
+      route("GET", "stats", "stats.getStats", () => this.stats()),
+      route(
+        "GET",
+        "settings/double_optin",
+        "settings.getDoubleOptinStatus",
+        () => this.doubleOptinStatus(),
+      ),
+      route(
+        "POST",
+        "settings/double_optin",
+        "settings.setDoubleOptin",
+        (_, __, body) => {
+          this.doubleOptin = Boolean(body.enable);
+          return this.doubleOptinStatus();
+        },
+      ),
+      route("GET", "timezones", "timezones.getTimezones", () => TIMEZONES),
+      route("GET", "timezones/(\\d+)", "timezones.getTimezone", ([id]) => {
+        const timezone = TIMEZONES.find((item) => item.id === Number(id));
+        if (!timezone) throw notFound("Timezone");
+        return timezone;
+      }),
+
+      // Fields
+      route("GET", "fields", "fields.getFields", () =>
+        [...this.fields.values()].map((field) => ({ ...field })),
+      ),
+      route("POST", "fields", "fields.createField", (_, __, body) =>
+        this.createField(body),
+      ),
+      route("PUT", "fields/(\\d+)", "fields.updateField", ([id], _, body) => {
+        const field = this.field(id);
+        if (body.title) field.title = body.title;
+        field.date_updated = timestamp();
+        return { ...field };
+      }),
+      route("DELETE", "fields/(\\d+)", "fields.removeField", ([id]) => {
+        const field = this.field(id);
+        if (DEFAULT_FIELDS.some(([key]) => key === field.key)) {
+          throw invalid("field", "Default fields cannot be removed.");
+        }
+        this.fields.delete(field.id);
+        for (const subscriber of this.subscribers.values()) {
+          delete subscriber.fields[field.key];
+        }
+        return { success: true };
+      }),
+
+      // Groups
+      route("GET", "groups", "groups.getGroups", (_, query) =>
+        paginate([...this.groups.values()], query).map(this.serializeGroup),
+      ),
+      route("POST", "groups/search", "groups.searchGroups", (_, __, body) => {
+        const name = String(body.group_name ?? "").toLowerCase();
+        return [...this.groups.values()]
+          .filter((group) => group.name.toLowerCase().includes(name))
+          .map(this.serializeGroup);
+      }),
+      route("GET", "groups/(\\d+)", "groups.getGroup", ([id]) =>
+        this.serializeGroup(this.group(id)),
+      ),
+      route("POST", "groups", "groups.createGroup", (_, __, body) => {
+        if (!body.name) invalidName();
+        const now = timestamp();
+        const group: StoredGroup = {
+          id: this.nextId++,
+          name: body.name,
+          members: new Set(),
+          date_created: now,
+          date_updated: now,
+        };
+        this.groups.set(group.id, group);
+        return this.serializeGroup(group);
+      }),
+      route("PUT", "groups/(\\d+)", "groups.updateGroup", ([id], _, body) => {
+        const group = this.group(id);
+        if (body.name !== undefined && !body.name) invalidName();
+        if (body.name) group.name = body.name;
+        group.date_updated = timestamp();
+        return this.serializeGroup(group);
+      }),
+      route("DELETE", "groups/(\\d+)", "groups.removeGroup", ([id]) => {
+        this.groups.delete(this.group(id).id);
+        return { success: true };
+      }),
+      route(
+        "POST",
+        "groups/(\\d+)/subscribers",
+        "groups.addSubscriberToGroup",
+        ([id], _, body) => {
+          const group = this.group(id);
+          const { subscriber } = this.upsertSubscriber(body, body);
+          group.members.add(subscriber.id);
+          return this.serializeSubscriber(subscriber);
+        },
+      ),
+      route(
+        "POST",
+        "groups/(\\d+)/subscribers/import",
+        "groups.addSubscribersToGroup",
+        ([id], _, body) => this.importSubscribers(this.group(id), body),
+      ),
+      route(
+        "GET",
+        "groups/(\\d+)/subscribers/import/(\\d+)",
+        "groups.getSubscribersGroupImport",
+        ([groupId, importId]) => {
+          const status = this.imports.get(`${groupId}/${importId}`);
+          if (!status) throw notFound("Import");
+          return status;
+        },
+      ),
+      route(
+        "GET",
+        "groups/(\\d+)/subscribers/count",
+        "groups.getGroupSubscriberCount",
+        ([id]) => ({ count: this.members(this.group(id)).length }),
+      ),
+      route(
+        "GET",
+        `groups/(\\d+)/subscribers/(${SUBSCRIBER_TYPES})/count`,
+        "groups.getGroupSubscribersCountByType",
+        ([id, type]) => ({
+          count: this.members(this.group(id), type).length,
+        }),
+      ),
+      route(
+        "GET",
+        `groups/(\\d+)/subscribers/(${SUBSCRIBER_TYPES})`,
+        "groups.getGroupSubscribersByType",
+        ([id, type], query) =>
+          paginate(this.members(this.group(id), type), query).map(
+            this.serializeSubscriber,
+          ),
+      ),
+      route(
+        "GET",
+        "groups/(\\d+)/subscribers",
+        "groups.getGroupSubscribers",
+        ([id], query) =>
+          paginate(this.members(this.group(id), query.type), query).map(
+            this.serializeSubscriber,
+          ),
+      ),
+      route(
+        "GET",
+        "groups/(\\d+)/subscribers/(\\d+)",
+        "groups.getGroupSubscriber",
+        ([groupId, subscriberId]) => {
+          const group = this.group(groupId);
+          if (!group.members.has(Number(subscriberId))) {
+            throw notFound("Subscriber");
+          }
+          return this.serializeSubscriber(this.subscriber(subscriberId));
+        },
+      ),
+      route(
+        "DELETE",
+        "groups/(\\d+)/subscribers/([^/]+)",
+        "groups.removeGroupSubscriber",
+        ([groupId, identifier]) => {
+          const group = this.group(groupId);
+          const subscriber = this.subscriber(identifier);
+          if (!group.members.delete(subscriber.id)) {
+            throw notFound("Subscriber");
+          }
+          return undefined;
+        },
+      ),
+
+      // Subscribers
+      route("GET", "subscribers", "subscribers.getSubscribers", (_, query) =>
+        paginate(this.subscriberList(query.type), query).map(
+          this.serializeSubscriber,
+        ),
+      ),
+      route(
+        "GET",
+        "subscribers/search",
+        "subscribers.searchSubscribers",
+        (_, query) => {
+          const term = (query.query ?? "").toLowerCase();
+          const matches = this.subscriberList().filter(
+            ({ email, name }) =>
+              email.includes(term) || name.toLowerCase().includes(term),
+          );
+          return paginate(matches, query).map(this.serializeSubscriber);
+        },
+      ),
+      route("POST", "subscribers", "subscribers.addSubscriber", (_, __, body) =>
+        this.serializeSubscriber(this.upsertSubscriber(body, body).subscriber),
+      ),
+      route(
+        "GET",
+        "subscribers/([^/]+)",
+        "subscribers.getSubscriber",
+        ([identifier]) => this.serializeSubscriber(this.subscriber(identifier)),
+      ),
+      route(
+        "PUT",
+        "subscribers/([^/]+)",
+        "subscribers.updateSubscriber",
+        ([identifier], _, body) =>
+          this.serializeSubscriber(
+            this.updateSubscriber(this.subscriber(identifier), body),
+          ),
+      ),
+      route(
+        "DELETE",
+        "subscribers/([^/]+)",
+        "subscribers.removeSubscriber",
+        ([identifier]) => {
+          const subscriber = this.subscriber(identifier);
+          this.subscribers.delete(subscriber.id);
+          for (const group of this.groups.values()) {
+            group.members.delete(subscriber.id);
+          }
+          return { success: true };
+        },
+      ),
+      route(
+        "GET",
+        "subscribers/([^/]+)/groups",
+        "subscribers.getSubscriberGroups",
+        ([identifier]) => {
+          const { id } = this.subscriber(identifier);
+          return [...this.groups.values()]
+            .filter((group) => group.members.has(id))
+            .map(this.serializeGroup);
+        },
+      ),
+      route(
+        "GET",
+        "subscribers/([^/]+)/activity",
+        "subscribers.getSubscriberActivity",
+        ([identifier]) =>
+          this.subscriber(identifier).activity.map((item) => ({ ...item })),
+      ),
+      route(
+        "GET",
+        `subscribers/([^/]+)/activity/(${ACTIVITY_TYPES})`,
+        "subscribers.getSubscriberActivityByType",
+        ([identifier, type]) =>
+          this.subscriber(identifier)
+            .activity.filter((item) => item.type === type)
+            .map((item) => ({ ...item })),
+      ),
+
+      // Campaigns
+      route(
+        "GET",
+        "campaigns/(sent|draft|outbox)",
+        "campaigns.getCampaigns",
+        ([status], query) => {
+          const campaigns = [...this.campaigns.values()].filter(
+            (campaign) => campaign.status === status,
+          );
+          if (query.order === "DESC") campaigns.reverse();
+          return paginate(campaigns, query).map(this.serializeCampaign);
+        },
+      ),
+      route(
+        "GET",
+        "campaigns/(sent|draft|outbox)/count",
+        "campaigns.getCampaignCount",
+        ([status]) => ({
+          count: [...this.campaigns.values()].filter(
+            (campaign) => campaign.status === status,
+          ).length,
+        }),
+      ),
+      route("GET", "campaigns/(\\d+)", "campaigns.getCampaign", ([id]) =>
+        this.serializeCampaign(this.campaign(id)),
+      ),
+      route("POST", "campaigns", "campaigns.createCampaign", (_, __, body) => {
+        if (body.type !== "regular" && body.type !== "ab") {
+          throw invalid("type", "The type must be regular or ab.");
+        }
+        const id = this.nextId++;
+        const campaign: StoredCampaign = {
+          id,
+          name: body.subject ?? `Campaign ${id}`,
+          subject: body.subject,
+          type: body.type,
+          status: "draft",
+          groups: (body.groups ?? []).map(Number),
+          segments: (body.segments ?? []).map(Number),
+          total_recipients: 0,
+          date_created: timestamp(),
+          date_send: null,
+        };
+        this.campaigns.set(campaign.id, campaign);
+        return this.serializeCampaign(campaign);
+      }),
+      route(
+        "PUT",
+        "campaigns/(\\d+)/content",
+        "campaigns.setCampaignContent",
+        ([id], _, body) => {
+          const campaign = this.campaign(id);
+          if (campaign.status !== "draft") {
+            throw invalid("campaign", "Only drafts can be edited.");
+          }
+          campaign.content = { html: body.html, plain: body.plain };
+          return { success: true };
+        },
+      ),
+      route(
+        "POST",
+        "campaigns/(\\d+)/actions/(send|cancel)",
+        "campaigns.actOnCampaign",
+        ([id, action], _, body) =>
+          this.serializeCampaign(
+            action === "send"
+              ? this.sendCampaign(this.campaign(id), body)
+              : this.cancelCampaign(this.campaign(id)),
+          ),
+      ),
+
+      // Segments
+      route("GET", "segments", "segments.getSegmentsRaw", (_, query) => {
+        const segments =
+          query.order === "DESC"
+            ? [...this.segments].reverse()
+            : [...this.segments];
+        const limit = Number(query.limit ?? DEFAULT_LIMIT);
+        const data = paginate(segments, query);
+
+        return {
+          data,
+          meta: {
+            pagination: {
+              total: segments.length,
+              count: data.length,
+              per_page: limit,
+              current_page: Math.floor(Number(query.offset ?? 0) / limit) + 1,
+              total_pages: Math.max(1, Math.ceil(segments.length / limit)),
+              links: {},
+            },
+          },
+        };
+      }),
+
+      // Webhooks
+      route("GET", "webhooks", "webhooks.getWebhooksRaw", () => ({
+        webhooks: [...this.webhooks.values()].map((webhook) => ({
+          ...webhook,
+        })),
+        count: this.webhooks.size,
+        start: 0,
+        limit: DEFAULT_LIMIT,
+      })),
+      route("GET", "webhooks/(\\d+)", "webhooks.getWebhook", ([id]) => ({
+        ...this.webhook(id),
+      })),
+      route("POST", "webhooks", "webhooks.createWebhook", (_, __, body) => {
+        validateWebhook(body);
+        const now = timestamp();
+        const webhook: StoredWebhook = {
+          id: this.nextId++,
+          event: body.event,
+          url: body.url,
+          date_created: now,
+          date_updated: now,
+        };
+        this.webhooks.set(webhook.id, webhook);
+        return { ...webhook };
+      }),
+      route(
+        "PUT",
+        "webhooks/(\\d+)",
+        "webhooks.updateWebhook",
+        ([id], _, body) => {
+          const webhook = this.webhook(id);
+          validateWebhook(body);
+          Object.assign(webhook, {
+            event: body.event,
+            url: body.url,
+            date_updated: timestamp(),
+          });
+          return { ...webhook };
+        },
+      ),
+      route("DELETE", "webhooks/(\\d+)", "webhooks.removeWebhook", ([id]) => {
+        this.webhooks.delete(this.webhook(id).id);
+        return { success: true };
+      }),
+    ];
+  }
+
+  // Lookups
+
+  private field(id: string) {
+    const field = this.fields.get(Number(id));
+    if (!field) throw notFound("Field");
+    return field;
+  }
+
+  private group(id: string) {
+    const group = this.groups.get(Number(id));
+    if (!group) throw notFound("Group");
+    return group;
+  }
+
+  private subscriber(identifier: string) {
+    const subscriber = /^\d+$/.test(identifier)
+      ? this.subscribers.get(Number(identifier))
+      : this.findByEmail(identifier);
+    if (!subscriber) throw notFound("Subscriber");
+    return subscriber;
+  }
+
+  private campaign(id: string) {
+    const campaign = this.campaigns.get(Number(id));
+    if (!campaign) throw notFound("Campaign");
+    return campaign;
+  }
+
+  private webhook(id: string) {
+    const webhook = this.webhooks.get(Number(id));
+    if (!webhook) throw notFound("Webhook");
+    return webhook;
+  }
+
+  private findByEmail(email: string) {
+    const wanted = email.toLowerCase();
+    return [...this.subscribers.values()].find(
+      (subscriber) => subscriber.email === wanted,
+    );
+  }
+
+  private subscriberList(type?: string) {
+    const subscribers = [...this.subscribers.values()];
+    return type
+      ? subscribers.filter((subscriber) => subscriber.type === type)
+      : subscribers;
+  }
+
+  private members(group: StoredGroup, type?: string) {
+    return [...group.members]
+      .map((id) => this.subscribers.get(id))
+      .filter(
+        (subscriber): subscriber is StoredSubscriber =>
+          !!subscriber && (!type || subscriber.type === type),
+      );
+  }
+
+  // Writes
+
+  private createField(body: any) {
+    if (!body.title) {
+      throw invalid("title", "The title field is required.");
+    }
+
+    const key = String(body.title)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    if ([...this.fields.values()].some((field) => field.key === key)) {
+      throw invalid("title", "A field with this title already exists.");
+    }
+
+    const now = timestamp();
+    const field: StoredField = {
+      id: this.nextId++,
+      title: body.title,
+      key,
+      type: body.type ?? "TEXT",
+      date_created: now,
+      date_updated: now,
+    };
+    this.fields.set(field.id, field);
+    return { ...field };
+  }
+
+  // Set the field values of a subscriber, coerced to the field types
+  private assignFields(subscriber: StoredSubscriber, values: any = {}) {
+    for (const [key, value] of Object.entries(values)) {
+      if (key === "email") continue;
+      if (key === "name") {
+        subscriber.name = String(value ?? "");
+        continue;
+      }
+
+      const field = [...this.fields.values()].find((item) => item.key === key);
+      if (!field) continue;
+
+      if (value === null || value === undefined || value === "") {
+        subscriber.fields[key] = null;
+      } else if (field.type === "NUMBER") {
+        subscriber.fields[key] = Number(value);
+      } else if (field.type === "DATE") {
+        subscriber.fields[key] = String(value).slice(0, 10);
+      } else {
+        subscriber.fields[key] = String(value);
+      }
+    }
+  }
+
+  private setType(subscriber: StoredSubscriber, type: SubscriberType) {
+    if (subscriber.type === type) return;
+
+    subscriber.type = type;
+    if (type === "active") subscriber.date_subscribe = timestamp();
+    if (type === "unsubscribed") subscriber.date_unsubscribe = timestamp();
+  }
+
+  // Add a subscriber, or update the one with the same email
+  private upsertSubscriber(
+    data: any,
+    flags: { resubscribe?: boolean },
+  ): { subscriber: StoredSubscriber; outcome: ImportOutcome } {
+    if (!isEmail(data.email)) {
+      throw invalid("email", "The email must be a valid email address.");
+    }
+
+    const existing = this.findByEmail(data.email);
+    if (!existing) {
+      const now = timestamp();
+      const type = data.type ?? (this.doubleOptin ? "unconfirmed" : "active");
+      const subscriber: StoredSubscriber = {
+        id: this.nextId++,
+        email: data.email.toLowerCase(),
+        name: data.name ?? "",
+        type,
+        fields: {},
+        sent: 0,
+        opened: 0,
+        clicked: 0,
+        activity: [],
+        date_subscribe: type === "active" ? now : null,
+        date_unsubscribe: type === "unsubscribed" ? now : null,
+        date_created: now,
+        date_updated: null,
+      };
+      this.assignFields(subscriber, data.fields);
+      this.subscribers.set(subscriber.id, subscriber);
+
+      return { subscriber, outcome: "imported" };
+    }
+
+    const before = JSON.stringify(existing);
+
+    if (data.name !== undefined) existing.name = data.name;
+    this.assignFields(existing, data.fields);
+
+    // Unsubscribed people only come back when resubscribing
+    if (existing.type === "unsubscribed") {
+      if (flags.resubscribe) this.setType(existing, data.type ?? "active");
+    } else if (data.type) {
+      this.setType(existing, data.type);
+    }
+
+    if (JSON.stringify(existing) === before) {
+      return { subscriber: existing, outcome: "unchanged" };
+    }
+
+    existing.date_updated = timestamp();
+    return { subscriber: existing, outcome: "updated" };
+  }
+
+  private updateSubscriber(subscriber: StoredSubscriber, body: any) {
+    if (body.name !== undefined) subscriber.name = body.name;
+    this.assignFields(subscriber, body.fields);
+    if (body.type) this.setType(subscriber, body.type);
+
+    subscriber.date_updated = timestamp();
+    return subscriber;
+  }
+
+  private importSubscribers(group: StoredGroup, body: any) {
+    const status: { [key: string]: any } = {
+      imported: [],
+      updated: [],
+      unchanged: [],
+      errors: [],
+      mx_errors: [],
+    };
+
+    const subscribers: any[] = body.subscribers ?? [];
+    for (const data of subscribers) {
+      try {
+        const { subscriber, outcome } = this.upsertSubscriber(data, {
+          resubscribe: data.resubscribe ?? body.resubscribe,
+        });
+        group.members.add(subscriber.id);
+        status[outcome].push(this.serializeSubscriber(subscriber));
+      } catch (error) {
+        if (!(error instanceof FakeApiError)) throw error;
+        status.errors.push({
+          email: data.email,
+          error: "Invalid email address",
+          message: error.details?.email?.[0] ?? error.message,
+        });
+      }
+    }
+
+    // Imports finish right away, their status stays available
+    const id = this.nextId++;
+    status.import_progress = {
+      id,
+      done: true,
+      total: subscribers.length,
+      processed: subscribers.length,
+    };
+    this.imports.set(`${group.id}/${id}`, status);
+
+    // The progress is only part of the response when asked for
+    return body.return_status
+      ? status
+      : { ...status, import_progress: undefined };
+  }
+
+  private sendCampaign(campaign: StoredCampaign, body: any) {
+    if (campaign.status !== "draft") {
+      throw invalid("campaign", "Only drafts can be sent.");
+    }
+    if (!campaign.content) {
+      throw invalid("content", "The campaign has no content.");
+    }
+
+    // Scheduled campaigns wait in the outbox
+    if (body.type === 2 && body.date) {
+      campaign.status = "outbox";
+      campaign.date_send = body.date;
+      return campaign;
+    }
+
+    const recipients = new Set<StoredSubscriber>();
+    for (const id of campaign.groups) {
+      const group = this.groups.get(id);
+      if (!group) continue;
+      for (const subscriber of this.members(group, "active")) {
+        recipients.add(subscriber);
+      }
+    }
+
+    const now = timestamp();
+    for (const subscriber of recipients) {
+      subscriber.sent++;
+      subscriber.activity.push({
+        date: now,
+        report_id: campaign.id,
+        subject: campaign.subject ?? campaign.name,
+        type: "sendings",
+      });
+    }
+
+    campaign.status = "sent";
+    campaign.date_send = now;
+    campaign.total_recipients = recipients.size;
+    return campaign;
+  }
+
+  private cancelCampaign(campaign: StoredCampaign) {
+    if (campaign.status !== "outbox") {
+      throw invalid("campaign", "Only scheduled campaigns can be cancelled.");
+    }
+
+    campaign.status = "draft";
+    campaign.date_send = null;
+    return campaign;
+  }
+
+  private batch(requests: any[]) {
+    return requests.map(({ method, path, body }) => {
+      const response = this.handle(
+        String(method).toUpperCase(),
+        String(path)
+          .replace(/^\/+/, "")
+          .replace(/^api\/v2\//, "")
+          .split("?")[0],
+        Object.fromEntries(new URLSearchParams(String(path).split("?")[1])),
+        body ?? {},
+        false,
+      );
+
+      return { code: response.status, body: response.data ?? null };
+    });
+  }
+
+  // Responses
+
+  private stats() {
+    const subscribers = this.subscriberList();
+    return {
+      subscribed: subscribers.filter(({ type }) => type === "active").length,
+      unsubscribed: subscribers.filter(({ type }) => type === "unsubscribed")
+        .length,
+      campaigns: [...this.campaigns.values()].filter(
+        ({ status }) => status === "sent",
+      ).length,
+      sent_emails: subscribers.reduce((total, { sent }) => total + sent, 0),
+      open_rate: 0,
+      click_rate: 0,
+      bounce_rate: 0,
+    };
+  }
+
+  private doubleOptinStatus() {
+    return {
+      enabled: this.doubleOptin,
+      preview_paths: {
+        page_path: "https://fake.mailerlite.com/preview/page",
+        email_path: "https://fake.mailerlite.com/preview/email",
+      },
+    };
+  }
+
+  private serializeGroup = (group: StoredGroup) => {
+    const members = this.members(group);
+    const count = (type: SubscriberType) =>
+      members.filter((subscriber) => subscriber.type === type).length;
+
+    return {
+      id: group.id,
+      name: group.name,
+      total: members.length,
+      active: count("active"),
+      unsubscribed: count("unsubscribed"),
+      bounced: count("bounced"),
+      unconfirmed: count("unconfirmed"),
+      junk: count("junk"),
+      sent: members.reduce((total, { sent }) => total + sent, 0),
+      opened: members.reduce((total, { opened }) => total + opened, 0),
+      clicked: members.reduce((total, { clicked }) => total + clicked, 0),
+      parent_id: 0,
+      date_created: group.date_created,
+      date_updated: group.date_updated,
+    };
+  };
+
+  private serializeSubscriber = (subscriber: StoredSubscriber) => {
+    const rate = (count: number) =>
+      subscriber.sent ? count / subscriber.sent : 0;
+    const value = (key: string) => {
+      if (key === "email") return subscriber.email;
+      if (key === "name") return subscriber.name;
+      return subscriber.fields[key] ?? null;
+    };
+
+    return {
+      id: subscriber.id,
+      name: subscriber.name,
+      email: subscriber.email,
+      sent: subscriber.sent,
+      opened: subscriber.opened,
+      opened_rate: rate(subscriber.opened),
+      clicked: subscriber.clicked,
+      clicked_rate: rate(subscriber.clicked),
+      type: subscriber.type,
+      fields: [...this.fields.values()].map(({ key, type }) => ({
+        key,
+        value: value(key),
+        type,
+      })),
+      signup_ip: null,
+      signup_timestamp: null,
+      confirmation_ip: null,
+      confirmation_timestamp: null,
+      date_subscribe: subscriber.date_subscribe,
+      date_unsubscribe: subscriber.date_unsubscribe,
+      date_created: subscriber.date_created,
+      date_updated: subscriber.date_updated,
+    };
+  };
+
+  private serializeCampaign = (campaign: StoredCampaign) => ({
+    id: campaign.id,
+    name: campaign.name,
+    subject: campaign.subject,
+    type: campaign.type,
+    status: campaign.status,
+    total_recipients: campaign.total_recipients,
+    date_created: campaign.date_created,
+    date_send: campaign.date_send,
+    opened: { count: 0, rate: 0 },
+    clicked: { count: 0, rate: 0 },
+  });
+}
+
+function invalidName(): never {
+  throw invalid("name", "The name field is required.");
+}
+
+function validateWebhook(body: any) {
+  if (!body.event) throw invalid("event", "The event field is required.");
+  if (!/^https?:\/\//.test(String(body.url ?? ""))) {
+    throw invalid("url", "The url must be a valid URL.");
+  }
+}
+
+/**
+ * Client backed by an in-memory MailerLite account, for the tests of
+ * applications using the SDK. Requests go through the full client
+ * pipeline, so responses and errors have the same shapes as the real ones.
+ */
+export function createFakeMailerLite<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+>(options: FakeMailerLiteOptions = {}): FakeMailerLite<TFields> {
+  const { segments, ...clientOptions } = options;
+  const server = new FakeMailerLiteServer(segments);
+
+  const client = MailerLite<TFields>("fake-api-key", {
+    logger: silentLogger,
+    ...clientOptions,
+    transport: server.transport,
+  });
+
+  return {
+    ...client,
+
+    injectRateLimit(fault: FakeRateLimitOptions = {}) {
+      const retryAfter = fault.retryAfter ?? 0;
+
+      server.addFault(fault, () => ({
+        status: 429,
+        headers: {
+          "x-ratelimit-limit": "120",
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": new Date(
+            Date.now() + retryAfter * 1000,
+          ).toISOString(),
+          "x-ratelimit-retry-after": String(retryAfter),
+        },
+        data: { error: { code: 429, message: "Too Many Requests" } },
+      }));
+    },
+
+    injectValidationError(fault: FakeValidationErrorOptions = {}) {
+      server.addFault(fault, () =>
+        new FakeApiError(
+          422,
+          fault.message ?? "Validation failed",
+          fault.fields ?? {},
+        ).toResponse(),
+      );
+    },
+
+    reset() {
+      server.reset();
+    },
+  };
+}
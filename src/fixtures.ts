@@ -0,0 +1,132 @@
+import { HttpError } from "./errors.js";
+import { REDACTED, consoleLogger } from "./logger.js";
+import { axiosTransport } from "./transport.js";
+import type {
+  Fixture,
+  FixtureOptions,
+  Transport,
+  TransportRequest,
+} from "./types/index.js";
+
+const API_KEY_HEADER = "x-mailerlite-apikey";
+
+const apiKeyOf = (request: TransportRequest) =>
+  Object.entries(request.headers).find(
+    ([name]) => name.toLowerCase() === API_KEY_HEADER,
+  )?.[1];
+
+// Remove every occurrence of the API key, wherever the API echoes it
+const scrub = <T>(value: T, apiKey?: string): T =>
+  apiKey
+    ? JSON.parse(JSON.stringify(value).split(apiKey).join(REDACTED))
+    : value;
+
+const requestLine = ({ method, url }: Fixture["request"]) => `${method} ${url}`;
+
+const loadFixtures = async (file: string): Promise<Fixture[]> => {
+  const { readFile } = await import("node:fs/promises");
+  return JSON.parse(await readFile(file, "utf8"));
+};
+
+const saveFixtures = async (file: string, fixtures: Fixture[]) => {
+  const { mkdir, writeFile } = await import("node:fs/promises");
+  const { dirname } = await import("node:path");
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(fixtures, null, 2)}\n`);
+};
+
+/**
+ * Transport recording the requests and responses of a run to a fixture
+ * file, or replaying them from it without touching the network.
+ *
+ * Recording sends the requests over `options.transport` and rewrites the
+ * file after every response, without the API key, keeping the fixtures in
+ * the order the requests were sent. Replaying serves the
+ * fixtures in the recorded order and rejects any request that does not
+ * match the next one, or comes after the last.
+ */
+export function fixtureTransport(
+  fixtures: string | Fixture[],
+  options: FixtureOptions = {},
+): Transport {
+  const { mode = "replay", logger = consoleLogger } = options;
+
+  if (mode === "record") {
+    if (typeof fixtures !== "string") {
+      throw new TypeError("Recording fixtures needs a file path");
+    }
+
+    const send = options.transport ?? axiosTransport();
+    // Slots in the order the requests were sent, which replay expects
+    const slots: Partial<Fixture>[] = [];
+    let saving = Promise.resolve();
+
+    return async (request) => {
+      const { method, url, body } = request;
+      const slot: Partial<Fixture> = { request: { method, url, body } };
+      slots.push(slot);
+
+      let response;
+      try {
+        response = await send(request);
+      } catch (error) {
+        // Replay cannot reproduce a request without response
+        slots.splice(slots.indexOf(slot), 1);
+        throw error;
+      }
+      slot.response = response;
+
+      // One save at a time, each with every response received so far
+      const recorded = slots
+        .filter((fixture): fixture is Fixture => !!fixture.response)
+        .map((fixture) => scrub(fixture, apiKeyOf(request)));
+      saving = saving
+        .then(() => saveFixtures(fixtures, recorded))
+        .catch((error) => {
+          // The next save writes every fixture again, so recording goes on
+          logger.error("MailerLite API: Saving the fixtures failed", {
+            error: (error as Error).message,
+            file: fixtures,
+          });
+        });
+      await saving;
+
+      return response;
+    };
+  }
+
+  let loaded: Promise<Fixture[]> | undefined;
+  let position = 0;
+
+  return async (request) => {
+    loaded ??=
+      typeof fixtures === "string"
+        ? loadFixtures(fixtures)
+        : Promise.resolve(fixtures);
+    const recorded = await loaded;
+
+    const expected = recorded[position];
+    const { method, url, body } = request;
+    const actual = scrub({ method, url, body }, apiKeyOf(request));
+
+    if (!expected) {
+      throw new HttpError(
+        `Unexpected request ${requestLine(actual)}, all ${recorded.length} fixtures were replayed`,
+        "ERR_FIXTURE_MISMATCH",
+      );
+    }
+    if (
+      expected.request.method !== actual.method ||
+      expected.request.url !== actual.url ||
+      (expected.request.body ?? null) !== (actual.body ?? null)
+    ) {
+      throw new HttpError(
+        `Unexpected request ${requestLine(actual)}, expected fixture ${position + 1}: ${requestLine(expected.request)}`,
+        "ERR_FIXTURE_MISMATCH",
+      );
+    }
+
+    position++;
+    return { ...expected.response, headers: { ...expected.response.headers } };
+  };
+}
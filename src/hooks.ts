@@ -0,0 +1,61 @@
+import type { MailerLiteError } from "./errors.js";
+import type { HookRequest, HookResponse, Hooks } from "./types/index.js";
+
+/**
+ * Runs the user supplied request/response hooks in order
+ */
+export class HookRunner {
+  private hooks: Required<Hooks>;
+
+  constructor(hooks: Hooks = {}) {
+    this.hooks = {
+      beforeRequest: hooks.beforeRequest ?? [],
+      afterResponse: hooks.afterResponse ?? [],
+      onError: hooks.onError ?? [],
+    };
+  }
+
+  /**
+   * Run the beforeRequest hooks. The first hook returning a response
+   * short-circuits the call and the remaining hooks are skipped.
+   */
+  async beforeRequest(request: HookRequest): Promise<HookResponse | undefined> {
+    for (const hook of this.hooks.beforeRequest) {
+      const response = await hook(request);
+      if (response) return response;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Run the afterResponse hooks, each one seeing the previous replacement
+   */
+  async afterResponse(
+    request: HookRequest,
+    response: HookResponse,
+  ): Promise<HookResponse> {
+    let current = response;
+    for (const hook of this.hooks.afterResponse) {
+      current = (await hook(request, current)) ?? current;
+    }
+
+    return current;
+  }
+
+  /**
+   * Run the onError hooks. The first hook returning a response recovers
+   * the call and the remaining hooks are skipped.
+   */
+  async onError(
+    request: HookRequest,
+    error: MailerLiteError,
+  ): Promise<HookResponse | undefined> {
+    for (const hook of this.hooks.onError) {
+      const response = await hook(request, error);
+      if (response) return response;
+    }
+
+    return undefined;
+  }
+}
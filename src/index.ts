@@ -1,5 +1,5 @@
 import account from "./api/account.js";
-import axiosClient from "./client.js";
+import httpClient from "./client.js";
 import batch from "./api/batch.js";
 import campaigns from "./api/campaigns.js";
 import fields from "./api/fields.js";
@@ -10,32 +10,138 @@ import stats from "./api/stats.js";
 import subscribers from "./api/subscribers.js";
 import timezones from "./api/timezones.js";
 import webhooks from "./api/webhooks.js";
-import type { Options, MailerLiteClient } from "./types/index.js";
+import type {
+  CustomFieldTypes,
+  HttpClient,
+  Options,
+  MailerLiteClient,
+  RawResponse,
+  ResponseApi,
+} from "./types/index.js";
 import {
   RateLimitUtils,
   RateLimitBatchProcessor,
   withRateLimit,
 } from "./rateLimitUtils.js";
 import { RateLimitHandler } from "./rateLimit.js";
+import { paginate } from "./paginate.js";
+import { RequestQueue } from "./throttle.js";
+import { MemoryCacheStore } from "./cache.js";
+import { captureResponses } from "./rawResponse.js";
+import { axiosTransport, fetchTransport } from "./transport.js";
+import { MailerLitePool } from "./pool.js";
+import { createFakeMailerLite } from "./fake.js";
+import { isDryRunResult } from "./dryRun.js";
+import { DEFAULT_AUDIT_MASK } from "./audit.js";
+import { fixtureTransport } from "./fixtures.js";
+import {
+  exportSubscribersCsv,
+  importSubscribersCsv,
+  parseCsv,
+  parseSubscribersCsv,
+} from "./csv.js";
+import { consoleLogger, silentLogger } from "./logger.js";
+import {
+  MailerLiteError,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  AbortError,
+  CircuitOpenError,
+  HttpError,
+} from "./errors.js";
+
+const createApi = <TFields extends CustomFieldTypes>(client: HttpClient) => ({
+  ...account(client),
+  ...batch(client),
+  ...campaigns(client),
+  ...fields(client),
+  ...groups<TFields>(client),
+  ...segments(client),
+  ...settings(client),
+  ...stats(client),
+  ...subscribers<TFields>(client),
+  ...timezones(client),
+  ...webhooks(client),
+});
+
+type ApiMethods = { [name: string]: (...args: any[]) => any };
+
+// Methods sending their requests in parallel, without a last response
+const PARALLEL_METHODS = ["getSubscriberTimeline", "exportSubscriberData"];
+
+// Every async API method, resolving to the envelope of its last request
+const createResponseApi = <TFields extends CustomFieldTypes>(
+  client: HttpClient,
+) => {
+  const responseApi: ApiMethods = {};
+
+  for (const name of Object.keys(createApi(client))) {
+    // Iterators span many requests, there is no single response to expose
+    if (name.startsWith("iterate") || PARALLEL_METHODS.includes(name)) {
+      continue;
+    }
+
+    responseApi[name] = async (...args: any[]) => {
+      let last: RawResponse<any> | undefined;
+      const api: ApiMethods = createApi(
+        captureResponses(client, (response) => {
+          last = response;
+        }),
+      );
 
-const MailerLite: (apiKey: string, options?: Options) => MailerLiteClient = (
+      const data = await api[name](...args);
+      return { ...last, data };
+    };
+  }
+
+  return responseApi as unknown as ReturnType<
+    ResponseApi<TFields>["withResponse"]
+  >;
+};
+
+const MailerLite = <TFields extends CustomFieldTypes = CustomFieldTypes>(
   apiKey: string,
   options: Options = {},
-) => {
-  const client = axiosClient(apiKey, options);
+): MailerLiteClient<TFields> => {
+  const client = httpClient(apiKey, options);
 
   return {
-    ...account(client),
-    ...batch(client),
-    ...campaigns(client),
-    ...fields(client),
-    ...groups(client),
-    ...segments(client),
-    ...settings(client),
-    ...stats(client),
-    ...subscribers(client),
-    ...timezones(client),
-    ...webhooks(client),
+    ...createApi<TFields>(client),
+
+    getQueueStats() {
+      return client.requestQueue?.getStats() ?? null;
+    },
+
+    getCoalescingStats() {
+      return client.requestCoalescer?.getStats() ?? null;
+    },
+
+    getCircuitState() {
+      return client.circuitBreaker?.getState() ?? null;
+    },
+
+    getDryRunRequests() {
+      return client.dryRunRecorder.getRequests();
+    },
+
+    clearDryRunRequests() {
+      client.dryRunRecorder.clear();
+    },
+
+    async clearCache() {
+      await client.responseCache?.clear();
+    },
+
+    async flushAuditLog() {
+      await client.auditLog?.flush();
+    },
+
+    withResponse() {
+      return createResponseApi<TFields>(client);
+    },
   };
 };
 
@@ -44,6 +150,12 @@ export default MailerLite;
 // Named export for better ESM support
 export { MailerLite };
 
+// Export the multi-account client pool
+export { MailerLitePool };
+
+// Export the in-memory fake client for tests
+export { createFakeMailerLite };
+
 // Export types for consumers
 export type * from "./types/index.js";
 
@@ -53,4 +165,44 @@ export {
   RateLimitBatchProcessor,
   withRateLimit,
   RateLimitHandler,
+  RequestQueue,
+};
+
+// Export the default cache store
+export { MemoryCacheStore };
+
+// Export built-in transports
+export { fetchTransport, axiosTransport, fixtureTransport };
+
+// Export built-in loggers
+export { consoleLogger, silentLogger };
+
+// Export pagination helper
+export { paginate };
+
+// Export CSV import and export helpers
+export {
+  exportSubscribersCsv,
+  importSubscribersCsv,
+  parseCsv,
+  parseSubscribersCsv,
+};
+
+// Export dry-run result guard
+export { isDryRunResult };
+
+// Export the default audit log masking rules
+export { DEFAULT_AUDIT_MASK };
+
+// Export error classes
+export {
+  MailerLiteError,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  AbortError,
+  CircuitOpenError,
+  HttpError,
 };
@@ -0,0 +1,44 @@
+import type { LogContext, Logger } from "./types/index.js";
+
+export const REDACTED = "[REDACTED]";
+const SENSITIVE_HEADERS = ["x-mailerlite-apikey", "authorization"];
+
+/**
+ * Default logger writing to the console
+ */
+export const consoleLogger: Logger = {
+  debug: (message, context) =>
+    context ? console.debug(message, context) : console.debug(message),
+  info: (message, context) =>
+    context ? console.info(message, context) : console.info(message),
+  warn: (message, context) =>
+    context ? console.warn(message, context) : console.warn(message),
+  error: (message, context) =>
+    context ? console.error(message, context) : console.error(message),
+};
+
+/**
+ * Logger discarding every message
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Copy request headers with the API key and other credentials masked
+ */
+export function redactHeaders(headers: Record<string, any> = {}): LogContext {
+  const redacted: LogContext = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || typeof value === "function") continue;
+    redacted[name] = SENSITIVE_HEADERS.includes(name.toLowerCase())
+      ? REDACTED
+      : value;
+  }
+
+  return redacted;
+}
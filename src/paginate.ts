@@ -0,0 +1,37 @@
+import type { PaginationOptions } from "./types/index.js";
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Lazily walk a limit/offset paginated endpoint, one page at a time.
+ * Iteration stops on a short page or once `maxItems` items were yielded.
+ */
+export async function* paginate<T>(
+  fetchPage: (limit: number, offset: number) => Promise<T[]>,
+  {
+    pageSize = DEFAULT_PAGE_SIZE,
+    maxItems = Infinity,
+    offset = 0,
+  }: PaginationOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new Error("pageSize has to be a positive integer");
+  }
+
+  let yielded = 0;
+  let currentOffset = offset;
+
+  while (yielded < maxItems) {
+    const limit = Math.min(pageSize, maxItems - yielded);
+    const page = await fetchPage(limit, currentOffset);
+
+    for (const item of page) {
+      yield item;
+      yielded++;
+      if (yielded >= maxItems) return;
+    }
+
+    if (page.length < limit) return;
+    currentOffset += page.length;
+  }
+}
@@ -0,0 +1,105 @@
+import MailerLite from "./index.js";
+import { consoleLogger } from "./logger.js";
+import type {
+  CustomFieldTypes,
+  Logger,
+  MailerLiteClient,
+  Options,
+  PoolOptions,
+  PoolResult,
+  PoolRunOptions,
+} from "./types/index.js";
+
+// Logger adding the account key to the context of every message
+const accountLogger = (logger: Logger, account: string): Logger => ({
+  debug: (message, context) => logger.debug(message, { account, ...context }),
+  info: (message, context) => logger.info(message, { account, ...context }),
+  warn: (message, context) => logger.warn(message, { account, ...context }),
+  error: (message, context) => logger.error(message, { account, ...context }),
+});
+
+/**
+ * Named clients of several MailerLite accounts. Every account gets its own
+ * client, so rate limits, queues, caches and circuit breakers never mix.
+ */
+export class MailerLitePool<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  private clients = new Map<string, MailerLiteClient<TFields>>();
+  private defaults: Options;
+  private concurrency: number;
+
+  constructor(options: PoolOptions = {}) {
+    this.defaults = options.defaults ?? {};
+    this.concurrency = Math.max(1, options.concurrency ?? 5);
+  }
+
+  /**
+   * Create the client of an account, with its options merged over the
+   * pool defaults
+   */
+  add(key: string, apiKey: string, options: Options = {}) {
+    if (this.clients.has(key)) {
+      throw new Error(`MailerLite pool: client "${key}" already exists`);
+    }
+
+    const merged: Options = { ...this.defaults, ...options };
+    merged.logger = accountLogger(merged.logger ?? consoleLogger, key);
+
+    const client = MailerLite<TFields>(apiKey, merged);
+    this.clients.set(key, client);
+    return client;
+  }
+
+  get(key: string): MailerLiteClient<TFields> | undefined {
+    return this.clients.get(key);
+  }
+
+  has(key: string): boolean {
+    return this.clients.has(key);
+  }
+
+  remove(key: string): boolean {
+    return this.clients.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Run a call against every account, a few accounts at a time.
+   * A failing account does not stop the others; its error is collected.
+   */
+  async map<T>(
+    fn: (client: MailerLiteClient<TFields>, key: string) => Promise<T>,
+    { concurrency = this.concurrency, keys = this.keys() }: PoolRunOptions = {},
+  ): Promise<PoolResult<T>> {
+    const result: PoolResult<T> = { results: {}, errors: {} };
+    const pending = [...keys];
+
+    const worker = async () => {
+      while (pending.length > 0) {
+        const key = pending.shift() as string;
+        try {
+          const client = this.clients.get(key);
+          if (!client) {
+            throw new Error(`MailerLite pool: no client "${key}"`);
+          }
+          result.results[key] = await fn(client, key);
+        } catch (error) {
+          result.errors[key] = error;
+        }
+      }
+    };
+
+    const workers = Math.min(Math.max(1, concurrency), pending.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    return result;
+  }
+}
@@ -1,13 +1,22 @@
-import type { AxiosResponse, AxiosError } from "axios";
-import type { RateLimitHeaders, RateLimitError, RateLimitOptions } from "./types/index.js";
+import type {
+  HttpResponse,
+  Logger,
+  RateLimitHeaders,
+  RateLimitOptions,
+} from "./types/index.js";
+import { RateLimitError, type HttpError } from "./errors.js";
+import { consoleLogger } from "./logger.js";
+import { sleep } from "./sleep.js";
 
 export class RateLimitHandler {
   private rateLimitRetryAttempts: number;
   private rateLimitRetryDelay: number;
   private onRateLimitHit?: (headers: RateLimitHeaders) => void;
   private onRateLimitRetry?: (attempt: number, headers: RateLimitHeaders) => void;
+  private logger: Logger;
 
-  constructor(options: RateLimitOptions = {}) {
+  constructor(options: RateLimitOptions = {}, logger: Logger = consoleLogger) {
+    this.logger = logger;
     this.rateLimitRetryAttempts = options.rateLimitRetryAttempts ?? 3;
     this.rateLimitRetryDelay = options.rateLimitRetryDelay ?? 1000;
     this.onRateLimitHit = options.onRateLimitHit;
@@ -17,7 +26,7 @@ export class RateLimitHandler {
   /**
    * Parse rate limit headers from API response
    */
-  parseRateLimitHeaders(response: AxiosResponse): RateLimitHeaders | null {
+  parseRateLimitHeaders(response: HttpResponse): RateLimitHeaders | null {
     const headers = response.headers;
 
     const limit = headers["x-ratelimit-limit"];
@@ -41,39 +50,42 @@ export class RateLimitHandler {
   /**
    * Check if the error is a rate limit error (429 status)
    */
-  isRateLimitError(error: AxiosError): boolean {
+  isRateLimitError(error: HttpError): boolean {
     return error.response?.status === 429;
   }
 
   /**
-   * Create a RateLimitError from an AxiosError
+   * Create a RateLimitError from a failed request
    */
-  createRateLimitError(error: AxiosError): RateLimitError {
+  createRateLimitError(error: HttpError): RateLimitError {
     const rateLimitHeaders = error.response
       ? this.parseRateLimitHeaders(error.response)
       : null;
 
-    const rateLimitError = new Error(
-      `Rate limit exceeded. ${rateLimitHeaders ? `Retry after ${rateLimitHeaders.retryAfter} seconds.` : "Please try again later."}`
-    ) as RateLimitError;
-
-    rateLimitError.name = "RateLimitError";
-    rateLimitError.isRateLimitError = true;
-    rateLimitError.rateLimitHeaders = rateLimitHeaders || {
-      limit: 60,
-      remaining: 0,
-      reset: new Date(Date.now() + 60000),
-      retryAfter: 60,
-    };
-
-    return rateLimitError;
+    return new RateLimitError(
+      `Rate limit exceeded. ${rateLimitHeaders ? `Retry after ${rateLimitHeaders.retryAfter} seconds.` : "Please try again later."}`,
+      {
+        method: error.config?.method?.toUpperCase(),
+        path: error.config?.url,
+        status: error.response?.status,
+        data: error.response?.data,
+        cause: error,
+        rateLimitHeaders: rateLimitHeaders || {
+          limit: 60,
+          remaining: 0,
+          reset: new Date(Date.now() + 60000),
+          retryAfter: 60,
+        },
+      }
+    );
   }
 
   /**
-   * Handle rate limit by waiting and retrying
+   * Handle rate limit by waiting and retrying. The wait ends early when
+   * the call is aborted.
    */
   async handleRateLimit(
-    error: AxiosError,
+    error: HttpError,
     retryFn: () => Promise<any>,
     attempt = 0
   ): Promise<any> {
@@ -99,14 +111,22 @@ export class RateLimitHandler {
       // Calculate delay: use retryAfter from headers, but add some buffer
       const delayMs = (rateLimitHeaders.retryAfter * 1000) + this.rateLimitRetryDelay;
 
-      await this.sleep(delayMs);
+      this.logger.warn("MailerLite API: Rate limit exceeded, retrying", {
+        method: error.config?.method?.toUpperCase(),
+        path: error.config?.url,
+        attempt: attempt + 1,
+        delayMs,
+        rateLimit: rateLimitHeaders,
+      });
+
+      await sleep(delayMs, error.config?.signal);
 
       try {
         return await retryFn();
       } catch (retryError) {
         if (retryError instanceof Error && "response" in retryError) {
           return await this.handleRateLimit(
-            retryError as AxiosError,
+            retryError as HttpError,
             retryFn,
             attempt + 1
           );
@@ -116,14 +136,21 @@ export class RateLimitHandler {
     } else {
       // Fallback delay if headers are not available
       const fallbackDelay = Math.pow(2, attempt) * this.rateLimitRetryDelay;
-      await this.sleep(fallbackDelay);
+
+      this.logger.warn("MailerLite API: Rate limit exceeded, retrying", {
+        method: error.config?.method?.toUpperCase(),
+        path: error.config?.url,
+        attempt: attempt + 1,
+        delayMs: fallbackDelay,
+      });
+      await sleep(fallbackDelay, error.config?.signal);
 
       try {
         return await retryFn();
       } catch (retryError) {
         if (retryError instanceof Error && "response" in retryError) {
           return await this.handleRateLimit(
-            retryError as AxiosError,
+            retryError as HttpError,
             retryFn,
             attempt + 1
           );
@@ -136,7 +163,7 @@ export class RateLimitHandler {
   /**
    * Check if we're approaching rate limit and should slow down
    */
-  shouldThrottle(response: AxiosResponse): boolean {
+  shouldThrottle(response: HttpResponse): boolean {
     const rateLimitHeaders = this.parseRateLimitHeaders(response);
     if (!rateLimitHeaders) return false;
 
@@ -148,7 +175,7 @@ export class RateLimitHandler {
   /**
    * Calculate suggested delay to avoid hitting rate limits
    */
-  getThrottleDelay(response: AxiosResponse): number {
+  getThrottleDelay(response: HttpResponse): number {
     const rateLimitHeaders = this.parseRateLimitHeaders(response);
     if (!rateLimitHeaders) return 0;
 
@@ -165,20 +192,13 @@ export class RateLimitHandler {
     return Math.min(delayBetweenRequests, 30000);
   }
 
-  /**
-   * Utility function to sleep for a given number of milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Log rate limit information for debugging
    */
-  logRateLimitInfo(response: AxiosResponse): void {
+  logRateLimitInfo(response: HttpResponse): void {
     const rateLimitHeaders = this.parseRateLimitHeaders(response);
     if (rateLimitHeaders) {
-      console.log("Rate Limit Info:", {
+      this.logger.info("MailerLite API: Rate limit info", {
         limit: rateLimitHeaders.limit,
         remaining: rateLimitHeaders.remaining,
         resetTime: rateLimitHeaders.reset.toISOString(),
@@ -1,4 +1,9 @@
-import type { RateLimitHeaders, RateLimitError } from "./types/index.js";
+import type {
+  Logger,
+  RateLimitHeaders,
+  RateLimitError,
+} from "./types/index.js";
+import { consoleLogger } from "./logger.js";
 
 /**
  * Utility functions for working with MailerLite API rate limits
@@ -184,6 +189,7 @@ export class RateLimitUtils {
 export function withRateLimit<T extends any[], R>(
   fn: (...args: T) => Promise<R>,
   maxRetries = 3,
+  logger: Logger = consoleLogger,
 ) {
   return async (...args: T): Promise<R> => {
     let lastError: any;
@@ -198,8 +204,13 @@ export function withRateLimit<T extends any[], R>(
           const rateLimitInfo = RateLimitUtils.getRateLimitInfo(error);
 
           if (rateLimitInfo && attempt < maxRetries) {
-            console.warn(
+            logger.warn(
               `Rate limit hit (attempt ${attempt + 1}/${maxRetries + 1}). Waiting ${rateLimitInfo.retryAfter} seconds...`,
+              {
+                attempt: attempt + 1,
+                maxAttempts: maxRetries + 1,
+                rateLimit: rateLimitInfo,
+              },
             );
 
             await RateLimitUtils.waitForRateLimit(rateLimitInfo);
@@ -0,0 +1,43 @@
+import type { MailerLiteRequestConfig } from "./client.js";
+import type {
+  HttpClient,
+  HttpRequestConfig,
+  RawResponse,
+} from "./types/index.js";
+
+/**
+ * Wrap the client so that every request resolves to the response envelope.
+ * The envelope is handed to `onResponse`, while the API methods still get
+ * the data they expect.
+ */
+export function captureResponses(
+  client: HttpClient,
+  onResponse: (response: RawResponse<any>) => void,
+): HttpClient {
+  const capturing: HttpClient = Object.create(client);
+
+  const capture = (response: RawResponse<any>) => {
+    onResponse(response);
+    return response.data;
+  };
+  const raw = (config: HttpRequestConfig): MailerLiteRequestConfig => ({
+    ...config,
+    raw: true,
+  });
+
+  // Delegate to the same method, the client may have wrapped it
+  Object.assign(capturing, {
+    request: async (config: HttpRequestConfig) =>
+      capture(await client.request(raw(config))),
+    get: async (url: string, config: HttpRequestConfig = {}) =>
+      capture(await client.get(url, raw(config))),
+    delete: async (url: string, config: HttpRequestConfig = {}) =>
+      capture(await client.delete(url, raw(config))),
+    post: async (url: string, data?: any, config: HttpRequestConfig = {}) =>
+      capture(await client.post(url, data, raw(config))),
+    put: async (url: string, data?: any, config: HttpRequestConfig = {}) =>
+      capture(await client.put(url, data, raw(config))),
+  });
+
+  return capturing;
+}
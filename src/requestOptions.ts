@@ -0,0 +1,29 @@
+import type { HttpRequestConfig, RequestOptions } from "./types/index.js";
+
+/**
+ * Build the request config of an API call from its per-call options
+ */
+export function requestConfig(
+  operation: string,
+  {
+    signal,
+    timeout,
+    headers,
+    retry,
+    caseConversion,
+    cache,
+    dryRun,
+  }: RequestOptions = {},
+): HttpRequestConfig {
+  const config: HttpRequestConfig = { operation };
+
+  if (signal !== undefined) config.signal = signal;
+  if (timeout !== undefined) config.timeout = timeout;
+  if (headers !== undefined) config.headers = headers;
+  if (retry !== undefined) config.retry = retry;
+  if (caseConversion !== undefined) config.caseConversion = caseConversion;
+  if (cache !== undefined) config.cache = cache;
+  if (dryRun !== undefined) config.dryRun = dryRun;
+
+  return config;
+}
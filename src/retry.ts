@@ -0,0 +1,107 @@
+import type { HttpError } from "./errors.js";
+import { sleep } from "./sleep.js";
+import type { RetryContext, RetryOptions } from "./types/index.js";
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ERR_NETWORK",
+];
+
+/**
+ * Retry policy for transient server and network failures.
+ * Rate limit errors (429) are handled separately by RateLimitHandler.
+ */
+export class RetryPolicy {
+  private maxAttempts: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private retryableStatusCodes: number[];
+  private retryMethods: string[];
+  private predicate?: (context: RetryContext) => boolean | undefined;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.baseDelay = options.baseDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.retryableStatusCodes = options.retryableStatusCodes ?? [
+      408, 500, 502, 503, 504,
+    ];
+    this.retryMethods = (options.retryMethods ?? ["get", "put", "delete"]).map(
+      (method) => method.toLowerCase(),
+    );
+    this.predicate = options.shouldRetry;
+  }
+
+  /**
+   * Build the context passed to the retry predicate
+   */
+  createContext(error: HttpError, attempt: number): RetryContext {
+    return {
+      method: (error.config?.method ?? "get").toUpperCase(),
+      path: error.config?.url,
+      status: error.response?.status,
+      code: error.code,
+      attempt,
+      error,
+    };
+  }
+
+  /**
+   * Check if a failed attempt should be repeated.
+   * `attempt` is the number of attempts made so far, starting at 1.
+   * `force` is the per-call override: true opts a non-idempotent call in,
+   * false disables retrying the call.
+   */
+  shouldRetry(error: HttpError, attempt: number, force?: boolean): boolean {
+    if (attempt >= this.maxAttempts) return false;
+    if (error.code === "ERR_CANCELED") return false;
+    if (force === false) return false;
+    if (force === true) return this.isTransientError(error);
+
+    const context = this.createContext(error, attempt);
+
+    // The predicate can force a retry (e.g. for a POST) or veto one
+    const decision = this.predicate?.(context);
+    if (decision !== undefined) return decision;
+
+    if (!this.retryMethods.includes(context.method.toLowerCase())) {
+      return false;
+    }
+
+    return this.isTransientError(error);
+  }
+
+  /**
+   * Check if the error is a retryable status code or a network failure
+   */
+  isTransientError(error: HttpError): boolean {
+    if (error.response) {
+      return this.retryableStatusCodes.includes(error.response.status);
+    }
+
+    return error.code !== undefined && NETWORK_ERROR_CODES.includes(error.code);
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  getDelay(attempt: number): number {
+    const ceiling = Math.min(
+      this.maxDelay,
+      this.baseDelay * Math.pow(2, attempt - 1),
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Wait before the next attempt, rejecting as soon as the call is aborted
+   */
+  async wait(attempt: number, signal?: AbortSignal): Promise<void> {
+    await sleep(this.getDelay(attempt), signal);
+  }
+}
@@ -0,0 +1,24 @@
+import { HttpError } from "./errors.js";
+
+/**
+ * Wait for the given time, or reject as canceled as soon as the signal of
+ * the call aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new HttpError("canceled", "ERR_CANCELED"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new HttpError("canceled", "ERR_CANCELED"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
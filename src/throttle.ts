@@ -0,0 +1,136 @@
+import type {
+  QueueStats,
+  RateLimitHeaders,
+  ThrottleOptions,
+} from "./types/index.js";
+import { RateLimitUtils } from "./rateLimitUtils.js";
+import { HttpError } from "./errors.js";
+import { sleep } from "./sleep.js";
+
+/**
+ * Client-side request queue that paces outgoing requests from the
+ * last-seen rate limit headers, so that bulk jobs stay below the limit
+ */
+export class RequestQueue {
+  private concurrency: number;
+  private threshold?: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private rateLimit: RateLimitHeaders | null = null;
+  private nextSlotAt = 0;
+
+  constructor(options: ThrottleOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.threshold = options.threshold;
+  }
+
+  /**
+   * Wait for a free slot and for the pacing delay, then reserve the slot.
+   * An aborted call leaves the queue right away, without a slot.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (this.active < this.concurrency && this.waiting.length === 0) {
+      this.active++;
+    } else {
+      // The slot is handed over by release(), active count stays the same
+      await this.waitForSlot(signal);
+    }
+
+    const delay = this.reserveDelay();
+    if (delay > 0) {
+      try {
+        await sleep(delay, signal);
+      } catch (error) {
+        this.release();
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Free a slot and remember the rate limit headers of the finished request
+   */
+  release(headers: RateLimitHeaders | null = null): void {
+    if (headers) {
+      this.rateLimit = headers;
+    }
+
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active = Math.max(0, this.active - 1);
+    }
+  }
+
+  /**
+   * Current depth of the queue
+   */
+  getStats(): QueueStats {
+    return {
+      pending: this.waiting.length,
+      active: this.active,
+      concurrency: this.concurrency,
+      rateLimit: this.rateLimit,
+    };
+  }
+
+  /**
+   * Calculate how long the next request has to wait. Requests go out
+   * immediately while the budget is healthy; once it drops to the threshold
+   * the remaining requests are spread evenly until the window resets.
+   */
+  private reserveDelay(): number {
+    const headers = this.rateLimit;
+    if (!headers) return 0;
+
+    const now = Date.now();
+    if (headers.reset.getTime() <= now) {
+      this.rateLimit = null;
+      return 0;
+    }
+
+    // Count the reserved request against the budget until a response
+    // with fresh headers arrives
+    this.rateLimit = {
+      ...headers,
+      remaining: Math.max(0, headers.remaining - 1),
+    };
+
+    // Budget exhausted, hold everything until the window resets
+    if (headers.remaining <= 0) {
+      this.nextSlotAt = Math.max(this.nextSlotAt, headers.reset.getTime());
+      return this.nextSlotAt - now;
+    }
+
+    const threshold =
+      this.threshold ?? Math.max(1, Math.floor(headers.limit * 0.1));
+    if (!RateLimitUtils.shouldPause(headers, threshold)) return 0;
+
+    const spacing = RateLimitUtils.getWaitTime(headers);
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + spacing;
+
+    return slot - now;
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new HttpError("canceled", "ERR_CANCELED"));
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiting.splice(this.waiting.indexOf(next), 1);
+        reject(new HttpError("canceled", "ERR_CANCELED"));
+      };
+      const next = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      this.waiting.push(next);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,178 @@
+import type {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+} from "axios";
+import { HttpError } from "./errors.js";
+import type { Transport, TransportResponse } from "./types/index.js";
+
+// Same encoding as axios, so both transports send the same URLs
+const encode = (value: string) =>
+  encodeURIComponent(value)
+    .replace(/%3A/gi, ":")
+    .replace(/%24/g, "$")
+    .replace(/%2C/gi, ",")
+    .replace(/%20/g, "+")
+    .replace(/%5B/gi, "[")
+    .replace(/%5D/gi, "]");
+
+const serialize = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Absolute URL of a request, with the params appended as query string
+ */
+export function buildURL(
+  baseURL: string,
+  url: string,
+  params: { [key: string]: any } = {},
+): string {
+  const isAbsolute = /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url);
+  const full =
+    isAbsolute || !baseURL
+      ? url
+      : `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+
+  const query: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null || value === undefined) continue;
+
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        query.push(`${encode(`${key}[]`)}=${encode(serialize(item))}`);
+      }
+    } else {
+      query.push(`${encode(key)}=${encode(serialize(value))}`);
+    }
+  }
+
+  if (query.length === 0) return full;
+  return `${full}${full.includes("?") ? "&" : "?"}${query.join("&")}`;
+}
+
+/**
+ * Plain map of response headers with lower-cased names
+ */
+export function normalizeHeaders(headers: any): { [key: string]: string } {
+  const map: { [key: string]: string } = {};
+  const entries =
+    typeof headers?.toJSON === "function" ? headers.toJSON() : headers;
+
+  for (const [name, value] of Object.entries(entries ?? {})) {
+    if (value == null) continue;
+    map[name.toLowerCase()] = Array.isArray(value)
+      ? value.join(", ")
+      : String(value);
+  }
+
+  return map;
+}
+
+// Error code of a failed fetch, as close to the axios codes as possible
+const fetchErrorCode = (error: any, signal?: AbortSignal) => {
+  if (signal?.aborted) return "ERR_CANCELED";
+  if (error?.name === "TimeoutError") return "ECONNABORTED";
+
+  const code = error?.cause?.code;
+  return typeof code === "string" && /^E[A-Z]+$/.test(code)
+    ? code
+    : "ERR_NETWORK";
+};
+
+/**
+ * Transport on the global `fetch`, available in Node.js 18+, browsers,
+ * edge runtimes and Workers. Another fetch implementation can be passed.
+ */
+export function fetchTransport(fetchFn?: typeof fetch): Transport {
+  return async ({ method, url, headers, body, signal, timeout }) => {
+    const send = fetchFn ?? globalThis.fetch;
+    if (typeof send !== "function") {
+      throw new HttpError(
+        "fetch is not available in this runtime",
+        "ERR_NOT_SUPPORT",
+      );
+    }
+
+    const signals = [signal, timeout ? AbortSignal.timeout(timeout) : null];
+    const active = signals.filter((item): item is AbortSignal => !!item);
+
+    try {
+      const response = await send(url, {
+        method,
+        headers,
+        body,
+        signal: active.length > 1 ? AbortSignal.any(active) : active[0],
+      });
+
+      const responseHeaders: { [key: string]: string } = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+
+      return {
+        status: response.status,
+        headers: responseHeaders,
+        body: await response.text(),
+      };
+    } catch (error) {
+      const code = fetchErrorCode(error, signal);
+      const message =
+        code === "ECONNABORTED"
+          ? `timeout of ${timeout}ms exceeded`
+          : (error as Error).message;
+
+      throw new HttpError(message, code);
+    }
+  };
+}
+
+const toTransportResponse = (response: AxiosResponse): TransportResponse => ({
+  status: response.status,
+  headers: normalizeHeaders(response.headers),
+  body: response.data,
+});
+
+/**
+ * Transport on axios, configured with the given axios options.
+ * axios is loaded on first use, so only its users need it installed.
+ */
+export function axiosTransport(
+  axiosOptions: AxiosRequestConfig = {},
+): Transport {
+  let instance: Promise<AxiosInstance> | undefined;
+
+  return async ({ method, url, headers, body, signal, timeout }) => {
+    instance ??= import("axios").then(({ default: axios }) =>
+      axios.create({
+        // Hand over the raw text, the client parses it
+        responseType: "text",
+        transformResponse: [(data) => data],
+        ...axiosOptions,
+        validateStatus: () => true,
+      }),
+    );
+    const client = await instance;
+
+    try {
+      const response = await client.request({
+        method,
+        url,
+        headers,
+        data: body,
+        ...(signal !== undefined && { signal }),
+        ...(timeout !== undefined && { timeout }),
+      });
+      return toTransportResponse(response);
+    } catch (error) {
+      // Custom adapters may still reject on error statuses
+      const { response, code, message } = error as AxiosError;
+      if (response) return toTransportResponse(response);
+
+      throw new HttpError(message, code);
+    }
+  };
+}
@@ -1,10 +1,160 @@
 import type { AxiosRequestConfig } from "axios";
+import type { MailerLiteError } from "../errors.js";
 
 export interface Options extends RateLimitOptions {
+  transport?: Transport;
   axiosOptions?: AxiosRequestConfig;
   baseURL?: string;
   useCaseConverter?: boolean;
+  caseConversion?: CaseConversionOptions;
   headers?: { [key: string]: string };
+  throttle?: boolean | ThrottleOptions;
+  retry?: boolean | RetryOptions;
+  logger?: Logger;
+  debug?: boolean;
+  hooks?: Hooks;
+  cache?: boolean | CacheOptions;
+  coalesce?: boolean;
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  dryRun?: boolean | DryRunOptions;
+  audit?: AuditOptions;
+}
+
+export interface CaseConversionOptions {
+  /**
+   * Key paths left as is by the case converter, in both directions.
+   * Segments are separated by dots, `*` matches any key and arrays are
+   * skipped, e.g. `fields.*` or `subscribers.fields.*`.
+   */
+  exclude?: string[];
+}
+
+/**
+ * Request handed to a transport. The URL is absolute and includes the
+ * query string, the body is already serialized.
+ */
+export interface TransportRequest {
+  method: string;
+  url: string;
+  headers: { [key: string]: string };
+  body?: string;
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+/**
+ * Response of a transport. The body is the raw response text, which the
+ * client parses; transports may also hand over an already parsed payload.
+ */
+export interface TransportResponse {
+  status: number;
+  headers: { [key: string]: string };
+  body: unknown;
+}
+
+/**
+ * Sends requests over the wire. Resolves with any response the server
+ * gives, including error statuses, and only rejects when no response
+ * arrives, with a `code` such as `ERR_CANCELED` or `ECONNRESET` if known.
+ */
+export type Transport = (
+  request: TransportRequest,
+) => Promise<TransportResponse>;
+
+export interface HttpRequestConfig {
+  /**
+   * Logical operation issuing the request, e.g. `groups.getGroups`
+   */
+  operation?: string;
+  method?: string;
+  baseURL?: string;
+  url?: string;
+  params?: { [key: string]: any };
+  data?: any;
+  headers?: { [key: string]: string };
+  signal?: AbortSignal;
+  timeout?: number;
+  retry?: boolean;
+  caseConversion?: boolean | CaseConversionOptions;
+  cache?: boolean;
+  dryRun?: boolean;
+}
+
+export interface HttpResponse<T = any> {
+  status: number;
+  headers: { [key: string]: string };
+  data: T;
+  config: HttpRequestConfig;
+}
+
+/**
+ * Client the API modules send their requests through. The methods
+ * resolve to the transformed response data.
+ */
+export interface HttpClient {
+  request<T = any>(config: HttpRequestConfig): Promise<T>;
+  get<T = any>(url: string, config?: HttpRequestConfig): Promise<T>;
+  delete<T = any>(url: string, config?: HttpRequestConfig): Promise<T>;
+  post<T = any>(
+    url: string,
+    data?: any,
+    config?: HttpRequestConfig,
+  ): Promise<T>;
+  put<T = any>(url: string, data?: any, config?: HttpRequestConfig): Promise<T>;
+}
+
+export interface HookRequest {
+  operation?: string;
+  method: string;
+  path: string;
+  params?: { [key: string]: any };
+  data?: any;
+  headers: { [key: string]: string };
+}
+
+export interface HookResponse {
+  status: number;
+  headers: { [key: string]: string };
+  data: any;
+}
+
+/**
+ * Called before a request is sent. The request can be changed in place;
+ * returning a response short-circuits the call without sending it.
+ */
+export type BeforeRequestHook = (
+  request: HookRequest,
+) => void | HookResponse | Promise<void | HookResponse>;
+
+/**
+ * Called with the transformed response; returning a response replaces it
+ */
+export type AfterResponseHook = (
+  request: HookRequest,
+  response: HookResponse,
+) => void | HookResponse | Promise<void | HookResponse>;
+
+/**
+ * Called when a call fails for good; returning a response recovers from it
+ */
+export type ErrorHook = (
+  request: HookRequest,
+  error: MailerLiteError,
+) => void | HookResponse | Promise<void | HookResponse>;
+
+export interface Hooks {
+  beforeRequest?: BeforeRequestHook[];
+  afterResponse?: AfterResponseHook[];
+  onError?: ErrorHook[];
+}
+
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
 }
 
 export type LanguageCode =
@@ -47,6 +197,22 @@ export type LanguageCode =
   | string
   | null;
 
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  headers?: { [key: string]: string };
+  retry?: boolean;
+  caseConversion?: boolean | CaseConversionOptions;
+  cache?: boolean;
+  dryRun?: boolean;
+}
+
+export interface PaginationOptions extends RequestOptions {
+  pageSize?: number;
+  maxItems?: number;
+  offset?: number;
+}
+
 export type CampaignAction = "send" | "cancel";
 export type CampaignStatus = "sent" | "draft" | "outbox";
 
@@ -58,8 +224,8 @@ export interface CampaignQuery {
 
 export interface CampaignData {
   type: "regular" | "ab";
-  groups?: number[];
-  segments?: number[];
+  groups?: (number | string)[];
+  segments?: (number | string)[];
   subject?: string;
   from?: string;
   fromName?: string;
@@ -115,15 +281,60 @@ export interface SubscriberQuery {
   type?: SubscriberType;
 }
 
-// TODO: consider adding optional key hints for city, company, etc.
-export interface SubscriberFields {
-  [key: string]: string | number | Date;
+/**
+ * Custom fields of an account by key, e.g. `{ company_size: "NUMBER" }`
+ */
+export interface CustomFieldTypes {
+  [key: string]: FieldType;
+}
+
+/**
+ * Fields every account has
+ */
+export interface DefaultFieldTypes {
+  email: "TEXT";
+  name: "TEXT";
+  last_name: "TEXT";
+  company: "TEXT";
+  country: "TEXT";
+  city: "TEXT";
+  phone: "TEXT";
+  state: "TEXT";
+  zip: "TEXT";
 }
 
-export interface SubscriberData {
+/**
+ * Value accepted when setting a field of the given type
+ */
+export type FieldInputValue<T extends FieldType> = T extends "NUMBER"
+  ? number
+  : T extends "DATE"
+    ? string | Date
+    : string;
+
+/**
+ * Value returned for a field of the given type
+ */
+export type FieldOutputValue<T extends FieldType> = T extends "NUMBER"
+  ? number
+  : string;
+
+export type SubscriberFields<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> = string extends keyof TFields
+  ? { [key: string]: string | number | Date }
+  : {
+      [K in keyof (TFields & DefaultFieldTypes)]?: FieldInputValue<
+        (TFields & DefaultFieldTypes)[K]
+      >;
+    };
+
+export interface SubscriberData<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
   email: string;
   name?: string;
-  fields?: SubscriberFields;
+  fields?: SubscriberFields<TFields>;
   resubscribe?: boolean;
   type?: "unsubscribed" | "active" | "unconfirmed";
   signupIp?: string;
@@ -132,13 +343,38 @@ export interface SubscriberData {
   confirmationTimestamp?: string;
 }
 
-export interface SubscriberDataUpdate {
+export interface SubscriberDataUpdate<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
   name?: string;
   type?: "unsubscribed" | "active";
-  fields?: SubscriberFields;
+  fields?: SubscriberFields<TFields>;
   resendAutoresponders?: boolean;
 }
 
+export interface SubscriberUpsertOptions {
+  /**
+   * Only send the name, fields and type that differ from the current
+   * subscriber, defaults to true
+   */
+  onlyChanged?: boolean;
+  /**
+   * Never turn an unsubscribed subscriber active again, defaults to true
+   */
+  preserveUnsubscribed?: boolean;
+}
+
+export interface SubscriberUpsertResult<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  status: "created" | "updated" | "unchanged";
+  subscriber: Subscriber<TFields>;
+  /**
+   * Update sent for an existing subscriber
+   */
+  changes?: SubscriberDataUpdate<TFields>;
+}
+
 export interface SubscriberSearchQuery {
   query?: string;
   offset?: number;
@@ -156,6 +392,21 @@ export type SubscriberActivityType =
   | "sendings"
   | null;
 
+export interface SubscriberTimelineOptions {
+  /**
+   * Leave out activity before this date
+   */
+  since?: Date | string;
+  /**
+   * Activity types to include, defaults to every type
+   */
+  types?: Exclude<SubscriberActivityType, null>[];
+  /**
+   * Add an engagement summary of the opens, clicks and sendings
+   */
+  engagement?: boolean;
+}
+
 export interface GroupQuery {
   limit?: number;
   offset?: number;
@@ -170,10 +421,12 @@ export interface GroupData {
   name?: string;
 }
 
-export interface GroupSubscriberData {
+export interface GroupSubscriberData<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
   email: string;
   name?: string;
-  fields?: SubscriberFields;
+  fields?: SubscriberFields<TFields>;
   resubscribe?: boolean;
   type?: "unsubscribed" | "active" | "unconfirmed";
   autoresponders?: boolean;
@@ -185,13 +438,69 @@ export interface GroupSubscriberFlags {
   returnStatus?: boolean;
 }
 
+export interface GroupImportOptions
+  extends Omit<GroupSubscriberFlags, "returnStatus">, RequestOptions {
+  /**
+   * Subscribers per import request, defaults to 500
+   */
+  chunkSize?: number;
+  /**
+   * Milliseconds between two polls of an unfinished import, defaults to 1000
+   */
+  pollInterval?: number;
+  onProgress?: (progress: GroupImportProgress) => void;
+  onChunk?: (status: ImportStatus<any>, chunk: number) => void;
+}
+
+export interface GroupImportProgress {
+  /**
+   * Chunk being imported, starting at 1
+   */
+  chunk: number;
+  chunks: number;
+  /**
+   * Subscribers processed so far, over all chunks
+   */
+  processed: number;
+  total: number;
+}
+
+/**
+ * Combined outcome of every chunk of an import
+ */
+export interface GroupImportReport<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  imported: Subscriber<TFields>[];
+  updated: Subscriber<TFields>[];
+  unchanged: Subscriber<TFields>[];
+  errors: ImportError[];
+  /**
+   * Chunks whose import was accepted but could not be polled to the end
+   */
+  unknown: GroupImportUnknown[];
+}
+
+/**
+ * Chunk of an import with an unknown outcome, check it later with
+ * `getSubscribersGroupImport(groupId, importId)`
+ */
+export interface GroupImportUnknown {
+  importId: string;
+  emails: string[];
+  error: string;
+  message: string;
+}
+
 export interface SubscriberGroupQuery extends GroupQuery {
   type?: SubscriberType;
 }
 
+export type FieldType = "TEXT" | "NUMBER" | "DATE";
+
 export interface FieldData {
   title?: string;
-  type?: "TEXT" | "NUMBER" | "DATE";
+  type?: FieldType;
 }
 
 export interface FieldUpdate {
@@ -222,13 +531,228 @@ export interface DoubleOptinStatus {
 }
 
 export interface Timezone {
-  id: number;
+  id: string;
   time: number;
   gmt: string;
   title: string;
   timezone?: string;
 }
 
+// Response models, with keys as returned by the case converter
+
+export interface MailerLiteGroup {
+  id: string;
+  name: string;
+  total: number;
+  active: number;
+  unsubscribed: number;
+  bounced: number;
+  unconfirmed: number;
+  junk: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  parentId: string;
+  dateCreated: string;
+  dateUpdated: string;
+}
+
+export type SubscriberField<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> = {
+  [K in keyof (TFields & DefaultFieldTypes) & string]: {
+    key: K;
+    value: FieldOutputValue<(TFields & DefaultFieldTypes)[K]> | null;
+    type: (TFields & DefaultFieldTypes)[K];
+  };
+}[keyof (TFields & DefaultFieldTypes) & string];
+
+export interface Subscriber<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  id: string;
+  name: string;
+  email: string;
+  sent: number;
+  opened: number;
+  openedRate: number;
+  clicked: number;
+  clickedRate: number;
+  type: SubscriberType;
+  fields: SubscriberField<TFields>[];
+  signupIp: string | null;
+  signupTimestamp: string | null;
+  confirmationIp: string | null;
+  confirmationTimestamp: string | null;
+  dateSubscribe: string | null;
+  dateUnsubscribe: string | null;
+  dateCreated: string;
+  dateUpdated: string | null;
+}
+
+export interface SubscriberActivity {
+  date: string;
+  reportId: string;
+  subject: string;
+  type: Exclude<SubscriberActivityType, null>;
+  linkId?: string | null;
+  link?: string | null;
+}
+
+export interface SubscriberTimelineCampaign {
+  reportId: string;
+  subject: string;
+}
+
+export interface SubscriberCampaignEvent {
+  type: Exclude<SubscriberActivityType, "clicks" | null>;
+  date: string;
+  campaign: SubscriberTimelineCampaign;
+}
+
+export interface SubscriberClickEvent {
+  type: "clicks";
+  date: string;
+  campaign: SubscriberTimelineCampaign;
+  link: string | null;
+  linkId: string | null;
+}
+
+export type SubscriberTimelineEvent =
+  SubscriberCampaignEvent | SubscriberClickEvent;
+
+export interface SubscriberEngagement {
+  lastOpen: string | null;
+  lastClick: string | null;
+  /**
+   * Campaigns sent to the subscriber
+   */
+  sent: number;
+  /**
+   * Sent campaigns the subscriber opened
+   */
+  opened: number;
+  /**
+   * Share of the sent campaigns opened, from 0 to 1
+   */
+  openRate: number;
+}
+
+export interface SubscriberTimeline {
+  /**
+   * Oldest event first
+   */
+  events: SubscriberTimelineEvent[];
+  engagement?: SubscriberEngagement;
+}
+
+export interface SubscriberExportField {
+  key: string;
+  /**
+   * Title of the field in the account, the key for unknown fields
+   */
+  title: string;
+  type: FieldType;
+  value: string | number | null;
+}
+
+export interface SubscriberExportGroup {
+  id: string;
+  name: string;
+}
+
+/**
+ * Everything stored about a subscriber, for a subject access request
+ */
+export interface SubscriberDataExport {
+  /**
+   * Version of the document layout, raised on breaking changes
+   */
+  version: 1;
+  exportedAt: string;
+  profile: Omit<Subscriber, "fields">;
+  fields: SubscriberExportField[];
+  groups: SubscriberExportGroup[];
+  activity: SubscriberActivity[];
+}
+
+export interface ImportError {
+  email?: string;
+  error?: string;
+  message?: string;
+}
+
+export interface ImportProgress {
+  id: string;
+  done: boolean;
+  total: number;
+  processed?: number;
+}
+
+export interface ImportStatus<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  imported: Subscriber<TFields>[];
+  updated: Subscriber<TFields>[];
+  unchanged: Subscriber<TFields>[];
+  errors: ImportError[];
+  mxErrors?: ImportError[];
+  importProgress?: ImportProgress;
+}
+
+export interface CampaignRate {
+  count: number;
+  rate: number;
+}
+
+export interface Campaign {
+  id: string;
+  name?: string;
+  subject?: string;
+  type: "regular" | "ab";
+  status?: CampaignStatus;
+  totalRecipients?: number;
+  dateCreated?: string;
+  dateSend?: string | null;
+  opened?: CampaignRate;
+  clicked?: CampaignRate;
+  mailId?: string;
+}
+
+export interface Field {
+  id: string;
+  title: string;
+  key: string;
+  type: FieldType;
+  dateCreated: string;
+  dateUpdated: string;
+}
+
+export interface Webhook {
+  id: string;
+  event: string;
+  url: string;
+  dateCreated: string;
+  dateUpdated: string;
+}
+
+export interface Segment {
+  id: string;
+  title: string;
+  filter: { [key: string]: any };
+  total: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  createdAt: string;
+  updatedAt: string;
+  timedOut?: boolean;
+}
+
+export interface SuccessResponse {
+  success: boolean;
+}
+
 export interface Account {
   id: string;
   email: string;
@@ -250,16 +774,21 @@ export interface Batch {
   };
 }
 
+export interface BatchResult {
+  code: number;
+  body: any;
+}
+
 export interface SegmentsResponse {
-  data: any[];
+  data: Segment[];
   meta: {
     pagination: {
       count: number;
-      current_page: number;
-      links: any[];
-      per_page: number;
+      currentPage: number;
+      links: { [key: string]: string };
+      perPage: number;
       total: number;
-      total_pages: number;
+      totalPages: number;
     };
   };
 }
@@ -268,7 +797,7 @@ export interface WebhooksResponse {
   count: number;
   limit: number;
   start: number;
-  webhooks: any[];
+  webhooks: Webhook[];
 }
 
 export interface RateLimitHeaders {
@@ -278,6 +807,346 @@ export interface RateLimitHeaders {
   retryAfter: number;
 }
 
+export interface RetryContext {
+  method: string;
+  path?: string;
+  status?: number;
+  code?: string;
+  attempt: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  retryableStatusCodes?: number[];
+  retryMethods?: string[];
+  shouldRetry?: (context: RetryContext) => boolean | undefined;
+}
+
+export interface ThrottleOptions {
+  concurrency?: number;
+  threshold?: number;
+}
+
+export interface CacheEntry {
+  status: number;
+  headers: { [key: string]: string };
+  data: any;
+  expiresAt: number;
+}
+
+/**
+ * Storage of cached responses, e.g. backed by Redis to share the cache
+ * between processes
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  store?: CacheStore;
+  /**
+   * Time to live in milliseconds by operation name, e.g. `fields.getFields`.
+   * Merged over the defaults; `0` disables caching an operation.
+   */
+  ttl?: { [operation: string]: number };
+}
+
+export interface QueueStats {
+  pending: number;
+  active: number;
+  concurrency: number;
+  rateLimit: RateLimitHeaders | null;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Failure rate of the recent requests opening the circuit, 0 to 1 */
+  failureThreshold?: number;
+  /** Requests needed in the window before the rate is evaluated */
+  minimumRequests?: number;
+  /** Number of recent requests the failure rate is computed over */
+  windowSize?: number;
+  /** Milliseconds the circuit stays open before letting probes through */
+  resetTimeout?: number;
+  /** Probe requests let through while half-open */
+  halfOpenRequests?: number;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export interface CoalescingStats {
+  requests: number;
+  coalesced: number;
+  inFlight: number;
+}
+
+/**
+ * Mutating request held back in dry-run mode
+ */
+export interface DryRunRequest {
+  operation?: string;
+  method: string;
+  path: string;
+  params?: { [key: string]: any };
+  data?: any;
+  timestamp: string;
+}
+
+/**
+ * What a mutating call resolves to in dry-run mode, instead of the API
+ * response
+ */
+export interface DryRunResult extends DryRunRequest {
+  dryRun: true;
+}
+
+export interface DryRunOptions {
+  onRequest?: (request: DryRunRequest) => void;
+}
+
+/**
+ * Line of the audit log, one per attempt of a POST, PUT or DELETE request
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  operation?: string;
+  method: string;
+  /**
+   * Request path, with emails replaced while `email` is masked
+   */
+  path: string;
+  /**
+   * Request body, with the masked keys replaced
+   */
+  data?: any;
+  /**
+   * Response status, missing if no response arrived
+   */
+  status?: number;
+  error?: string;
+  affectedIds: string[];
+  attempt: number;
+  /**
+   * ID of the entry of the first attempt, for retries
+   */
+  retryOf?: string;
+}
+
+/**
+ * Where audit entries go: a file path the JSON lines are appended to,
+ * a stream they are written to, or a callback
+ */
+export type AuditSink =
+  | string
+  | { write(chunk: string): unknown }
+  | ((entry: AuditEntry) => void | Promise<void>);
+
+export interface AuditOptions {
+  sink: AuditSink;
+  /**
+   * Body keys whose values are masked at any depth, or a function
+   * returning the masked body. Defaults to `DEFAULT_AUDIT_MASK`.
+   */
+  mask?: string[] | ((data: any) => any);
+}
+
+/**
+ * Recorded request and the response it got, without the API key
+ */
+export interface Fixture {
+  request: { method: string; url: string; body?: string };
+  response: TransportResponse;
+}
+
+export interface FixtureOptions {
+  /**
+   * `record` sends the requests and saves the fixtures, `replay` serves
+   * them offline. Defaults to `replay`.
+   */
+  mode?: "record" | "replay";
+  /**
+   * Transport the requests are recorded over. Defaults to the built-in
+   * axios transport.
+   */
+  transport?: Transport;
+  /**
+   * Logs fixture files that could not be saved, defaults to the console
+   */
+  logger?: Logger;
+}
+
+export interface PoolOptions {
+  /**
+   * Options of every client, merged under the options of each account
+   */
+  defaults?: Options;
+  /**
+   * Accounts called at once by `map`, defaults to 5
+   */
+  concurrency?: number;
+}
+
+export interface PoolRunOptions {
+  concurrency?: number;
+  /**
+   * Accounts to call, defaults to every account of the pool
+   */
+  keys?: string[];
+}
+
+export interface PoolResult<T> {
+  results: { [key: string]: T };
+  errors: { [key: string]: unknown };
+}
+
+export interface FakeSegmentData {
+  title: string;
+  filter?: { [key: string]: any };
+  total?: number;
+}
+
+export interface FakeMailerLiteOptions extends Omit<
+  Options,
+  "transport" | "axiosOptions"
+> {
+  /**
+   * Segments of the fake account, which the API can only read
+   */
+  segments?: FakeSegmentData[];
+}
+
+export interface FakeFaultOptions {
+  /**
+   * Operation to fail, e.g. `groups.addSubscriberToGroup` or just
+   * `addSubscriberToGroup`. Defaults to any request.
+   */
+  operation?: string;
+  /**
+   * Number of requests to fail, defaults to 1
+   */
+  times?: number;
+}
+
+export interface FakeRateLimitOptions extends FakeFaultOptions {
+  /**
+   * Seconds sent in the `X-RateLimit-Retry-After` header, defaults to 0
+   */
+  retryAfter?: number;
+}
+
+export interface FakeValidationErrorOptions extends FakeFaultOptions {
+  message?: string;
+  /**
+   * Messages by field, as returned in the error details
+   */
+  fields?: { [field: string]: string[] };
+}
+
+export interface FakeMailerLiteApi {
+  /**
+   * Answer the next matching requests with a 429
+   */
+  injectRateLimit(options?: FakeRateLimitOptions): void;
+  /**
+   * Answer the next matching requests with a 422
+   */
+  injectValidationError(options?: FakeValidationErrorOptions): void;
+  /**
+   * Forget all state and pending faults
+   */
+  reset(): void;
+}
+
+export type FakeMailerLite<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> = MailerLiteClient<TFields> & FakeMailerLiteApi;
+
+export interface CsvExportOptions extends PaginationOptions {
+  /**
+   * Export the subscribers of this group instead of the whole account
+   */
+  groupId?: number | string;
+  type?: SubscriberType;
+  /**
+   * Subscriber properties like `email` or `dateCreated` and custom field
+   * keys, defaults to `email`, `name`, `type` and every field
+   */
+  columns?: string[];
+  /**
+   * Defaults to `,`
+   */
+  delimiter?: string;
+  /**
+   * Start with a byte order mark, so spreadsheets read the file as UTF-8
+   */
+  bom?: boolean;
+  /**
+   * Prefix text starting with `=`, `+`, `-`, `@`, a tab or a carriage
+   * return with `'`, so spreadsheets do not run it as a formula.
+   * `parseSubscribersCsv` removes the prefix again. Defaults to true.
+   */
+  escapeFormulas?: boolean;
+}
+
+export interface CsvParseOptions {
+  /**
+   * Detected from the header line when not set
+   */
+  delimiter?: string;
+}
+
+export interface CsvSubscriberOptions extends CsvParseOptions {
+  /**
+   * Target of a header: `email`, `name`, `type`, `resubscribe`,
+   * `autoresponders` or a field key, `null` to skip the column. Other
+   * headers are matched by their name, e.g. `E-mail` or `Last name`.
+   */
+  columns?: { [header: string]: string | null };
+  /**
+   * Fields of the account, to convert numbers and skip unknown columns
+   */
+  fields?: Field[];
+}
+
+export interface CsvRowError {
+  /**
+   * Line of the file the row starts on
+   */
+  line: number;
+  email?: string;
+  message: string;
+}
+
+export interface CsvSubscribers<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  subscribers: GroupSubscriberData<TFields>[];
+  errors: CsvRowError[];
+  /**
+   * Headers matching neither a subscriber property nor a known field
+   */
+  unmappedHeaders: string[];
+}
+
+export interface CsvImportOptions
+  extends Omit<CsvSubscriberOptions, "fields">, GroupImportOptions {}
+
+export interface CsvImportReport<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> extends GroupImportReport<TFields> {
+  /**
+   * Rows left out of the import as they did not validate
+   */
+  rowErrors: CsvRowError[];
+  unmappedHeaders: string[];
+}
+
 export interface RateLimitOptions {
   enableRateLimit?: boolean;
   rateLimitRetryAttempts?: number;
@@ -286,143 +1155,388 @@ export interface RateLimitOptions {
   onRateLimitRetry?: (attempt: number, headers: RateLimitHeaders) => void;
 }
 
-export interface RateLimitError extends Error {
-  rateLimitHeaders: RateLimitHeaders;
-  isRateLimitError: true;
-}
+export type {
+  MailerLiteError,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  AbortError,
+  CircuitOpenError,
+} from "../errors.js";
 
 // API method return types
 export interface AccountApi {
-  getAccountRaw(): Promise<AccountWrap>;
-  getAccount(): Promise<Account>;
-  getMe(): Promise<Account>;
+  getAccountRaw(options?: RequestOptions): Promise<AccountWrap>;
+  getAccount(options?: RequestOptions): Promise<Account>;
+  getMe(options?: RequestOptions): Promise<Account>;
 }
 
 export interface BatchApi {
-  batch(requests: Batch[]): Promise<any[]>;
+  batch(requests: Batch[], options?: RequestOptions): Promise<BatchResult[]>;
 }
 
 export interface CampaignsApi {
   actOnCampaign(
-    campaignId: number,
+    campaignId: number | string,
     action: CampaignAction,
     data?: CampaignSendData,
-  ): Promise<any>;
-  getCampaigns(status?: CampaignStatus, params?: CampaignQuery): Promise<any>;
-  getCampaignCount(status?: CampaignStatus): Promise<number>;
-  createCampaign(campaign: CampaignData): Promise<any>;
-  getCampaign(campaignId: number): Promise<any>;
+    options?: RequestOptions,
+  ): Promise<Campaign>;
+  getCampaigns(
+    status?: CampaignStatus,
+    params?: CampaignQuery,
+    options?: RequestOptions,
+  ): Promise<Campaign[]>;
+  iterateCampaigns(
+    status?: CampaignStatus,
+    params?: Omit<CampaignQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<Campaign, void, undefined>;
+  getCampaignCount(
+    status?: CampaignStatus,
+    options?: RequestOptions,
+  ): Promise<number>;
+  createCampaign(
+    campaign: CampaignData,
+    options?: RequestOptions,
+  ): Promise<Campaign>;
+  getCampaign(
+    campaignId: number | string,
+    options?: RequestOptions,
+  ): Promise<Campaign>;
   setCampaignContent(
-    campaignId: number,
+    campaignId: number | string,
     content: CampaignContent,
-  ): Promise<any>;
+    options?: RequestOptions,
+  ): Promise<SuccessResponse>;
 }
 
 export interface FieldsApi {
-  getFields(): Promise<any>;
-  createField(field: FieldData): Promise<any>;
-  updateField(fieldId: number, fieldUpdate: FieldUpdate): Promise<any>;
-  removeField(fieldId: number): Promise<any>;
-}
-
-export interface GroupsApi {
-  getGroups(params?: GroupQuery): Promise<any[]>;
-  searchGroups(groupName: string): Promise<any[]>;
-  getGroup(groupId: number): Promise<any>;
-  createGroup(group: GroupData): Promise<any>;
-  updateGroup(groupId: number, group: GroupData): Promise<any>;
-  removeGroup(groupId: number): Promise<{ success: boolean }>;
+  getFields(options?: RequestOptions): Promise<Field[]>;
+  createField(field: FieldData, options?: RequestOptions): Promise<Field>;
+  updateField(
+    fieldId: number | string,
+    fieldUpdate: FieldUpdate,
+    options?: RequestOptions,
+  ): Promise<Field>;
+  removeField(
+    fieldId: number | string,
+    options?: RequestOptions,
+  ): Promise<SuccessResponse>;
+}
+
+export interface GroupsApi<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  getGroups(
+    params?: GroupQuery,
+    options?: RequestOptions,
+  ): Promise<MailerLiteGroup[]>;
+  iterateGroups(
+    params?: Omit<GroupQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<MailerLiteGroup, void, undefined>;
+  searchGroups(
+    groupName: string,
+    options?: RequestOptions,
+  ): Promise<MailerLiteGroup[]>;
+  getGroup(
+    groupId: number | string,
+    options?: RequestOptions,
+  ): Promise<MailerLiteGroup>;
+  createGroup(
+    group: GroupData,
+    options?: RequestOptions,
+  ): Promise<MailerLiteGroup>;
+  updateGroup(
+    groupId: number | string,
+    group: GroupData,
+    options?: RequestOptions,
+  ): Promise<MailerLiteGroup>;
+  removeGroup(
+    groupId: number | string,
+    options?: RequestOptions,
+  ): Promise<SuccessResponse>;
   addSubscriberToGroup(
-    groupId: number,
-    subscriber: GroupSubscriberData,
-  ): Promise<any>;
+    groupId: number | string,
+    subscriber: GroupSubscriberData<TFields>,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>>;
   addSubscribersToGroup(
-    groupId: number,
-    subscribers: GroupSubscriberData[],
+    groupId: number | string,
+    subscribers: GroupSubscriberData<TFields>[],
     importOptions?: GroupSubscriberFlags,
-  ): Promise<any>;
-  getSubscribersGroupImport(groupId: number, importId: number): Promise<any>;
-  getGroupSubscriber(groupId: number, subscriberId: number): Promise<any>;
+    options?: RequestOptions,
+  ): Promise<ImportStatus<TFields>>;
+  getSubscribersGroupImport(
+    groupId: number | string,
+    importId: number | string,
+    options?: RequestOptions,
+  ): Promise<ImportStatus<TFields>>;
+  importSubscribersToGroup(
+    groupId: number | string,
+    subscribers: GroupSubscriberData<TFields>[],
+    options?: GroupImportOptions,
+  ): Promise<GroupImportReport<TFields>>;
+  getGroupSubscriber(
+    groupId: number | string,
+    subscriberId: number | string,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>>;
   getGroupSubscribers(
-    groupId: number,
+    groupId: number | string,
     params?: SubscriberGroupQuery,
-  ): Promise<any>;
-  getGroupSubscriberCount(groupId: number): Promise<number>;
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>[]>;
+  iterateGroupSubscribers(
+    groupId: number | string,
+    params?: Omit<SubscriberGroupQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<Subscriber<TFields>, void, undefined>;
+  getGroupSubscriberCount(
+    groupId: number | string,
+    options?: RequestOptions,
+  ): Promise<number>;
   getGroupSubscribersByType(
-    groupId: number,
+    groupId: number | string,
     subscriberType: SubscriberType,
     params?: GroupQuery,
-  ): Promise<any>;
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>[]>;
+  iterateGroupSubscribersByType(
+    groupId: number | string,
+    subscriberType: SubscriberType,
+    params?: Omit<GroupQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<Subscriber<TFields>, void, undefined>;
   getGroupSubscribersCountByType(
-    groupId: number,
+    groupId: number | string,
     subscriberType: SubscriberType,
+    options?: RequestOptions,
   ): Promise<number>;
   removeGroupSubscriber(
-    groupId: number,
+    groupId: number | string,
     subscriberIdentifier: string,
+    options?: RequestOptions,
   ): Promise<string>;
 }
 
 export interface SegmentsApi {
-  getSegments(params?: SegmentQuery): Promise<any[]>;
-  getSegmentsCount(params?: SegmentQuery): Promise<number>;
-  getSegmentsRaw(params?: SegmentQuery): Promise<SegmentsResponse>;
+  getSegments(
+    params?: SegmentQuery,
+    options?: RequestOptions,
+  ): Promise<Segment[]>;
+  iterateSegments(
+    params?: Omit<SegmentQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<Segment, void, undefined>;
+  getSegmentsCount(
+    params?: SegmentQuery,
+    options?: RequestOptions,
+  ): Promise<number>;
+  getSegmentsRaw(
+    params?: SegmentQuery,
+    options?: RequestOptions,
+  ): Promise<SegmentsResponse>;
 }
 
 export interface SettingsApi {
-  getDoubleOptinStatus(): Promise<DoubleOptinStatus>;
-  hasEnabledDoubleOptin(): Promise<boolean>;
-  setDoubleOptin(isEnabled: boolean): Promise<DoubleOptinStatus>;
-  enableDoubleOptin(): Promise<DoubleOptinStatus>;
-  disableDoubleOptin(): Promise<DoubleOptinStatus>;
+  getDoubleOptinStatus(options?: RequestOptions): Promise<DoubleOptinStatus>;
+  hasEnabledDoubleOptin(options?: RequestOptions): Promise<boolean>;
+  setDoubleOptin(
+    isEnabled: boolean,
+    options?: RequestOptions,
+  ): Promise<DoubleOptinStatus>;
+  enableDoubleOptin(options?: RequestOptions): Promise<DoubleOptinStatus>;
+  disableDoubleOptin(options?: RequestOptions): Promise<DoubleOptinStatus>;
 }
 
 export interface StatsApi {
-  getStats(): Promise<Stats>;
+  getStats(options?: RequestOptions): Promise<Stats>;
 }
 
-export interface SubscribersApi {
-  getSubscribers(params?: SubscriberQuery): Promise<any>;
-  addSubscriber(subscriber: SubscriberData): Promise<any>;
-  getSubscriber(identifier: string): Promise<any>;
+export interface SubscribersApi<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  getSubscribers(
+    params?: SubscriberQuery,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>[]>;
+  iterateSubscribers(
+    params?: Omit<SubscriberQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<Subscriber<TFields>, void, undefined>;
+  addSubscriber(
+    subscriber: SubscriberData<TFields>,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>>;
+  getSubscriber(
+    identifier: string,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>>;
   updateSubscriber(
     identifier: string,
-    subscriber: SubscriberDataUpdate,
-  ): Promise<any>;
-  searchSubscribers(params?: SubscriberSearchQuery): Promise<any>;
-  getSubscriberActivity(identifier: string): Promise<any>;
+    subscriber: SubscriberDataUpdate<TFields>,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>>;
+  upsertSubscriber(
+    subscriber: SubscriberData<TFields>,
+    upsertOptions?: SubscriberUpsertOptions,
+    options?: RequestOptions,
+  ): Promise<SubscriberUpsertResult<TFields>>;
+  searchSubscribers(
+    params?: SubscriberSearchQuery,
+    options?: RequestOptions,
+  ): Promise<Subscriber<TFields>[]>;
+  iterateSearchSubscribers(
+    params?: Omit<SubscriberSearchQuery, "limit" | "offset">,
+    options?: PaginationOptions,
+  ): AsyncGenerator<Subscriber<TFields>, void, undefined>;
+  getSubscriberActivity(
+    identifier: string,
+    options?: RequestOptions,
+  ): Promise<SubscriberActivity[]>;
   getSubscriberActivityByType(
     identifier: string,
     activityType: SubscriberActivityType,
-  ): Promise<any>;
-  removeSubscriber(identifier: string): Promise<any>;
-  getSubscriberGroups(identifier: string): Promise<any>;
+    options?: RequestOptions,
+  ): Promise<SubscriberActivity[]>;
+  getSubscriberTimeline(
+    identifier: string,
+    timelineOptions?: SubscriberTimelineOptions,
+    options?: RequestOptions,
+  ): Promise<SubscriberTimeline>;
+  removeSubscriber(
+    identifier: string,
+    options?: RequestOptions,
+  ): Promise<SuccessResponse>;
+  getSubscriberGroups(
+    identifier: string,
+    options?: RequestOptions,
+  ): Promise<MailerLiteGroup[]>;
+  exportSubscriberData(
+    identifier: string,
+    options?: RequestOptions,
+  ): Promise<SubscriberDataExport>;
 }
 
 export interface TimezonesApi {
-  getTimezones(): Promise<Timezone[]>;
-  getTimezone(timezoneId: number): Promise<Timezone>;
+  getTimezones(options?: RequestOptions): Promise<Timezone[]>;
+  getTimezone(
+    timezoneId: number | string,
+    options?: RequestOptions,
+  ): Promise<Timezone>;
 }
 
 export interface WebhooksApi {
-  getWebhooks(): Promise<any[]>;
-  getWebhooksCount(): Promise<number>;
-  getWebhooksRaw(): Promise<WebhooksResponse>;
-  getWebhook(webhookId: number): Promise<any>;
-  createWebhook(webhook: WebhookData): Promise<any>;
-  updateWebhook(webhookId: number, webhookUpdate: WebhookData): Promise<any>;
-  removeWebhook(webhookId: number): Promise<any>;
+  getWebhooks(options?: RequestOptions): Promise<Webhook[]>;
+  getWebhooksCount(options?: RequestOptions): Promise<number>;
+  getWebhooksRaw(options?: RequestOptions): Promise<WebhooksResponse>;
+  getWebhook(
+    webhookId: number | string,
+    options?: RequestOptions,
+  ): Promise<Webhook>;
+  createWebhook(
+    webhook: WebhookData,
+    options?: RequestOptions,
+  ): Promise<Webhook>;
+  updateWebhook(
+    webhookId: number | string,
+    webhookUpdate: WebhookData,
+    options?: RequestOptions,
+  ): Promise<Webhook>;
+  removeWebhook(
+    webhookId: number | string,
+    options?: RequestOptions,
+  ): Promise<SuccessResponse>;
+}
+
+export interface QueueApi {
+  getQueueStats(): QueueStats | null;
+}
+
+export interface CacheApi {
+  clearCache(): Promise<void>;
+}
+
+export interface CoalescingApi {
+  getCoalescingStats(): CoalescingStats | null;
+}
+
+export interface CircuitBreakerApi {
+  getCircuitState(): CircuitState | null;
+}
+
+export interface AuditApi {
+  flushAuditLog(): Promise<void>;
+}
+
+export interface DryRunApi {
+  getDryRunRequests(): DryRunRequest[];
+  clearDryRunRequests(): void;
+}
+
+/**
+ * Result of a call made through `withResponse()`
+ */
+export interface RawResponse<T> {
+  data: T;
+  status: number;
+  headers: { [key: string]: string };
+  rateLimit: RateLimitHeaders | null;
+}
+
+/**
+ * The async API methods of `T`, resolving to the full response instead of
+ * the data alone
+ */
+export type WithResponse<T> = {
+  [
+    K in keyof T as T[K] extends (...args: any[]) => Promise<any> ? K : never
+  ]: T[K] extends (...args: infer A) => Promise<infer R>
+    ? (...args: A) => Promise<RawResponse<R>>
+    : never;
+};
+
+export interface ResponseApi<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> {
+  /**
+   * Methods sending several requests one after the other resolve to the
+   * response of the last one, those sending them in parallel are left out
+   */
+  withResponse(): WithResponse<
+    Omit<
+      MailerLiteClient<TFields>,
+      | keyof QueueApi
+      | keyof CacheApi
+      | keyof AuditApi
+      | keyof ResponseApi
+      | "getSubscriberTimeline"
+      | "exportSubscriberData"
+    >
+  >;
 }
 
-export interface MailerLiteClient
-  extends AccountApi,
+export interface MailerLiteClient<
+  TFields extends CustomFieldTypes = CustomFieldTypes,
+> extends AccountApi,
     BatchApi,
     CampaignsApi,
     FieldsApi,
-    GroupsApi,
+    GroupsApi<TFields>,
     SegmentsApi,
     SettingsApi,
     StatsApi,
-    SubscribersApi,
+    SubscribersApi<TFields>,
     TimezonesApi,
-    WebhooksApi {}
+    WebhooksApi,
+    QueueApi,
+    CacheApi,
+    CoalescingApi,
+    CircuitBreakerApi,
+    DryRunApi,
+    AuditApi,
+    ResponseApi<TFields> {}
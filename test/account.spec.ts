@@ -1,9 +1,9 @@
 import axios from "../src/client";
 import accountMethods from "../src/api/account";
-import { testApiKey } from "../config";
+import { fixtureOptions, testApiKey } from "./helpers/fixtures";
 
 describe("account", () => {
-  const client = accountMethods(axios(testApiKey));
+  const client = accountMethods(axios(testApiKey, fixtureOptions("account")));
 
   it("gets account info", async () => {
     const account = await client.getAccount();
@@ -0,0 +1,208 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import MailerLite from "../src/index";
+import { affectedIds, maskBody, maskPath } from "../src/audit";
+import { silentLogger } from "../src/logger";
+import type { AuditEntry, Transport } from "../src/types";
+
+const rateLimitHeaders = {
+  "x-ratelimit-limit": "60",
+  "x-ratelimit-remaining": "0",
+  "x-ratelimit-reset": new Date().toISOString(),
+  "x-ratelimit-retry-after": "0",
+};
+
+// Transport answering with the given statuses, then with 200
+const statusTransport = (statuses: number[] = []) =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(async () => {
+    const status = statuses.shift() ?? 200;
+    return {
+      status,
+      headers: status === 429 ? rateLimitHeaders : {},
+      body: status === 200 ? '{"id":42,"email":"john@doe.com"}' : "{}",
+    };
+  });
+
+describe("audit log", () => {
+  it("writes an entry per mutation with the masked body", async () => {
+    const entries: AuditEntry[] = [];
+    const mailerLite = MailerLite("secret", {
+      transport: statusTransport(),
+      logger: silentLogger,
+      audit: { sink: (entry) => void entries.push(entry) },
+    });
+
+    await mailerLite.addSubscriberToGroup(7, {
+      email: "john@doe.com",
+      fields: { company: "ACME" },
+      resubscribe: true,
+    });
+    await mailerLite.getGroup(7);
+    await mailerLite.flushAuditLog();
+
+    expect(entries).toEqual([
+      {
+        id: expect.any(String),
+        timestamp: expect.any(String),
+        operation: "groups.addSubscriberToGroup",
+        method: "POST",
+        path: "groups/7/subscribers",
+        data: {
+          email: "[REDACTED]",
+          fields: "[REDACTED]",
+          resubscribe: true,
+        },
+        status: 200,
+        affectedIds: ["7", "42"],
+        attempt: 1,
+      },
+    ]);
+  });
+
+  it("links rate limit retries to the original entry", async () => {
+    const entries: AuditEntry[] = [];
+    const mailerLite = MailerLite("secret", {
+      transport: statusTransport([429, 429]),
+      logger: silentLogger,
+      rateLimitRetryDelay: 1,
+      audit: { sink: (entry) => void entries.push(entry) },
+    });
+
+    await mailerLite.removeGroupSubscriber(7, "john@doe.com");
+    await mailerLite.flushAuditLog();
+
+    expect(entries.map(({ status, attempt }) => [status, attempt])).toEqual([
+      [429, 1],
+      [429, 2],
+      [200, 3],
+    ]);
+    expect(entries[0].retryOf).toBeUndefined();
+    expect(entries[1].retryOf).toBe(entries[0].id);
+    expect(entries[2].retryOf).toBe(entries[0].id);
+    expect(entries[2].path).toBe("groups/7/subscribers/[REDACTED]");
+    expect(entries[2].affectedIds).toEqual(["7", "42"]);
+  });
+
+  it("appends JSON lines to a file or writes them to a stream", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mailerlite-audit-"));
+    const file = join(dir, "audit.jsonl");
+    const stream = { write: jest.fn() };
+
+    try {
+      for (const sink of [file, stream]) {
+        const mailerLite = MailerLite("secret", {
+          transport: statusTransport(),
+          logger: silentLogger,
+          audit: { sink, mask: ["name"] },
+        });
+        await mailerLite.createGroup({ name: "VIP" });
+        await mailerLite.removeGroup(3);
+        await mailerLite.flushAuditLog();
+      }
+
+      const lines = (await readFile(file, "utf8")).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).operation)).toEqual([
+        "groups.createGroup",
+        "groups.removeGroup",
+      ]);
+      expect(JSON.parse(lines[0]).data).toEqual({ name: "[REDACTED]" });
+      expect(stream.write).toHaveBeenCalledTimes(2);
+      expect(stream.write.mock.calls[1][0]).toMatch(
+        /"path":"groups\/3"}?.*\n$/,
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("does not fail calls when recording the entry fails", async () => {
+    const logger = { ...silentLogger, error: jest.fn() };
+    const transport = statusTransport();
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger,
+      audit: {
+        sink: () => {},
+        mask: () => {
+          throw new Error("bad mask");
+        },
+      },
+    });
+
+    await expect(mailerLite.createGroup({ name: "VIP" })).resolves.toEqual({
+      id: "42",
+      email: "john@doe.com",
+    });
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      "MailerLite API: Recording the audit log failed",
+      expect.objectContaining({ error: "bad mask" }),
+    );
+  });
+
+  it("does not need the crypto global of newer Node.js versions", async () => {
+    const entries: AuditEntry[] = [];
+    jest.replaceProperty(globalThis, "crypto", undefined as any);
+    const mailerLite = MailerLite("secret", {
+      transport: statusTransport(),
+      logger: silentLogger,
+      audit: { sink: (entry) => void entries.push(entry) },
+    });
+
+    await mailerLite.createGroup({ name: "VIP" });
+    await mailerLite.flushAuditLog();
+
+    expect(entries[0].id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+  });
+
+  it("does not fail calls when the sink fails", async () => {
+    const logger = { ...silentLogger, error: jest.fn() };
+    const mailerLite = MailerLite("secret", {
+      transport: statusTransport(),
+      logger,
+      audit: {
+        sink: () => {
+          throw new Error("disk full");
+        },
+      },
+    });
+
+    await expect(mailerLite.removeGroup(3)).resolves.toBeDefined();
+    await mailerLite.flushAuditLog();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining("audit log"),
+      expect.objectContaining({ error: "disk full" }),
+    );
+  });
+});
+
+describe("audit helpers", () => {
+  it("masks keys at any depth", () => {
+    expect(
+      maskBody({ subscribers: [{ email: "a@b.c", type: "active" }] }, [
+        "email",
+      ]),
+    ).toEqual({ subscribers: [{ email: "[REDACTED]", type: "active" }] });
+  });
+
+  it("masks emails in paths", () => {
+    expect(maskPath("subscribers/john@doe.com/groups/7")).toBe(
+      "subscribers/[REDACTED]/groups/7",
+    );
+    expect(maskPath("subscribers/john%40doe.com?type=active")).toBe(
+      "subscribers/[REDACTED]?type=active",
+    );
+  });
+
+  it("collects the IDs of imported records", () => {
+    expect(
+      affectedIds("groups/7/subscribers/import", {
+        imported: [{ id: 1 }, { id: 2 }],
+        updated: [{ id: 3 }],
+      }),
+    ).toEqual(["7", "1", "2", "3"]);
+  });
+});
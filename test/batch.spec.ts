@@ -1,9 +1,9 @@
 import axios from '../src/client'
 import batchMethods from '../src/api/batch'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('batch', () => {
-  const client = batchMethods(axios(testApiKey))
+  const client = batchMethods(axios(testApiKey, fixtureOptions('batch')))
 
   it('gets account info via batch', async () => {
     const batchResult = await client.batch([
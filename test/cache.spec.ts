@@ -0,0 +1,171 @@
+import MailerLite from "../src/index";
+import { MemoryCacheStore } from "../src/cache";
+import { silentLogger } from "../src/logger";
+import type { CacheStore, Transport } from "../src/types";
+import { mockAdapter } from "./helpers/adapters";
+
+const fieldsAdapter = () =>
+  mockAdapter((config) =>
+    config.method === "get"
+      ? [{ id: 1, title: "Company", date_created: "2024-01-01" }]
+      : { id: 2, title: "Plan" },
+  );
+
+const getRequests = (adapter: ReturnType<typeof fieldsAdapter>) =>
+  adapter.mock.calls.filter(([config]) => config.method === "get").length;
+
+describe("response cache", () => {
+  it("serves repeated calls from the cache", async () => {
+    const adapter = fieldsAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      cache: true,
+    });
+
+    const first = await mailerLite.getFields();
+    const second = await mailerLite.getFields();
+
+    expect(second).toEqual([
+      { id: 1, title: "Company", dateCreated: "2024-01-01" },
+    ]);
+    expect(second).not.toBe(first);
+    expect(getRequests(adapter)).toBe(1);
+  });
+
+  it("does not cache without the cache option or for other endpoints", async () => {
+    const adapter = fieldsAdapter();
+    const uncached = MailerLite("secret", { axiosOptions: { adapter } });
+    const cached = MailerLite("secret", {
+      axiosOptions: { adapter },
+      cache: true,
+    });
+
+    await uncached.getFields();
+    await uncached.getFields();
+    await cached.getSubscribers();
+    await cached.getSubscribers();
+
+    expect(getRequests(adapter)).toBe(4);
+  });
+
+  it("is invalidated by related mutations", async () => {
+    const adapter = fieldsAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      cache: true,
+    });
+
+    await mailerLite.getFields();
+    await mailerLite.createField({ title: "Plan", type: "TEXT" });
+    await mailerLite.getFields();
+
+    expect(getRequests(adapter)).toBe(2);
+  });
+
+  it("expires entries after their TTL", async () => {
+    const adapter = fieldsAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      cache: { ttl: { "fields.getFields": 10 } },
+    });
+
+    await mailerLite.getFields();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await mailerLite.getFields();
+
+    expect(getRequests(adapter)).toBe(2);
+  });
+
+  it("uses the given store and can be bypassed per call", async () => {
+    const adapter = fieldsAdapter();
+    const store = new MemoryCacheStore();
+    const set = jest.spyOn(store, "set");
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      cache: { store },
+    });
+
+    await mailerLite.getFields();
+    await mailerLite.getFields({ cache: false });
+
+    expect(set).toHaveBeenCalledTimes(2);
+    expect(getRequests(adapter)).toBe(2);
+
+    await mailerLite.clearCache();
+    await mailerLite.getFields();
+    expect(getRequests(adapter)).toBe(3);
+  });
+
+  it("keeps the accounts of clients sharing a store apart", async () => {
+    const store = new MemoryCacheStore();
+    const set = jest.spyOn(store, "set");
+    const transport = jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+      async ({ headers }) => ({
+        status: 200,
+        headers: {},
+        body: JSON.stringify([{ title: headers["X-MailerLite-ApiKey"] }]),
+      }),
+    );
+    const client = (apiKey: string) =>
+      MailerLite(apiKey, { transport, logger: silentLogger, cache: { store } });
+    const acme = client("key-acme");
+    const globex = client("key-globex");
+
+    await acme.getFields();
+    await expect(globex.getFields()).resolves.toEqual([
+      { title: "key-globex" },
+    ]);
+    await expect(acme.getFields()).resolves.toEqual([{ title: "key-acme" }]);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(set.mock.calls.map(([key]) => key).join()).not.toMatch(/key-/);
+  });
+
+  it("goes on without a failing store", async () => {
+    const adapter = fieldsAdapter();
+    const memory = new MemoryCacheStore();
+    const failing = new Set<string>();
+    const call =
+      <T>(name: string, method: (...args: any[]) => T) =>
+      async (...args: any[]) => {
+        if (failing.has(name)) throw new Error("redis down");
+        return method.apply(memory, args);
+      };
+    const store: CacheStore = {
+      get: call("get", memory.get),
+      set: call("set", memory.set),
+      delete: call("delete", memory.delete),
+    };
+    const logger = { ...silentLogger, warn: jest.fn() };
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      cache: { store },
+      logger,
+    });
+
+    await mailerLite.getFields();
+    failing.add("delete");
+    await expect(
+      mailerLite.createField({ title: "Plan", type: "TEXT" }),
+    ).resolves.toMatchObject({ title: "Plan" });
+    expect(logger.warn).toHaveBeenCalledWith(
+      "MailerLite API: Cache delete failed",
+      expect.objectContaining({ error: "redis down" }),
+    );
+
+    // The entry which could not be deleted is not served any more
+    await expect(mailerLite.getFields()).resolves.toHaveLength(1);
+    expect(getRequests(adapter)).toBe(2);
+
+    failing.add("get").add("set");
+    await expect(mailerLite.getFields()).resolves.toHaveLength(1);
+    expect(getRequests(adapter)).toBe(3);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "MailerLite API: Cache read failed",
+      expect.objectContaining({ error: "redis down" }),
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      "MailerLite API: Cache write failed",
+      expect.objectContaining({ error: "redis down" }),
+    );
+  });
+});
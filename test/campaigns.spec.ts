@@ -1,10 +1,10 @@
 import 'jest-extended'
 import axios from '../src/client'
 import campaignsMethods from '../src/api/campaigns'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('campaigns', () => {
-  const client = campaignsMethods(axios(testApiKey))
+  const client = campaignsMethods(axios(testApiKey, fixtureOptions('campaigns')))
 
   it('gets all campaigns', async () => {
     await expect(client
@@ -0,0 +1,107 @@
+import axiosFactory from "../src/client";
+import subscribersMethods from "../src/api/subscribers";
+import { toCamelCase, toSnakeCase } from "../src/caseConversion";
+import { mockAdapter } from "./helpers/adapters";
+
+const echoAdapter = () =>
+  mockAdapter((config) => JSON.parse(config.data ?? "{}"));
+
+describe("case conversion", () => {
+  it("leaves the keys at excluded paths untouched", () => {
+    const data = {
+      signupIp: "127.0.0.1",
+      fields: { companySize: 50, last_name: "Doe" },
+    };
+
+    expect(toSnakeCase(data, ["fields.*"])).toEqual({
+      signup_ip: "127.0.0.1",
+      fields: { companySize: 50, last_name: "Doe" },
+    });
+  });
+
+  it("skips arrays and matches wildcards in key paths", () => {
+    const data = {
+      subscribers: [
+        { signupIp: "1", fields: { companySize: 1 } },
+        { signupIp: "2", fields: { companySize: 2 } },
+      ],
+    };
+
+    expect(toSnakeCase(data, ["*.fields.*"])).toEqual({
+      subscribers: [
+        { signup_ip: "1", fields: { companySize: 1 } },
+        { signup_ip: "2", fields: { companySize: 2 } },
+      ],
+    });
+  });
+
+  it("gives back the original keys after converting twice", () => {
+    const data = {
+      email: "john@doe.com",
+      resendAutoresponders: true,
+      fields: { companySize: 50, plan_name: "pro" },
+    };
+
+    expect(toCamelCase(toSnakeCase(data, ["fields.*"]), ["fields.*"])).toEqual(
+      data,
+    );
+  });
+
+  it("converts everything without exclusions", () => {
+    expect(toSnakeCase({ fields: { companySize: 1 } })).toEqual({
+      fields: { company_size: 1 },
+    });
+  });
+});
+
+describe("client case conversion", () => {
+  it("applies the exclusions to requests and responses", async () => {
+    const adapter = echoAdapter();
+    const client = subscribersMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        caseConversion: { exclude: ["fields.*"] },
+      }),
+    );
+
+    const subscriber = await client.updateSubscriber("john@doe.com", {
+      resendAutoresponders: true,
+      fields: { companySize: 50 },
+    });
+
+    expect(JSON.parse(adapter.mock.calls[0][0].data)).toEqual({
+      resend_autoresponders: true,
+      fields: { companySize: 50 },
+    });
+    expect(subscriber).toEqual({
+      resendAutoresponders: true,
+      fields: { companySize: 50 },
+    });
+  });
+
+  it("lets a single call override the conversion", async () => {
+    const adapter = echoAdapter();
+    const client = subscribersMethods(
+      axiosFactory("secret", { axiosOptions: { adapter } }),
+    );
+
+    await client.updateSubscriber(
+      "john@doe.com",
+      { fields: { companySize: 50 } },
+      { caseConversion: false },
+    );
+    await client.updateSubscriber(
+      "john@doe.com",
+      { resendAutoresponders: true, fields: { companySize: 50 } },
+      { caseConversion: { exclude: ["fields.*"] } },
+    );
+
+    expect(JSON.parse(adapter.mock.calls[0][0].data)).toEqual({
+      fields: { companySize: 50 },
+    });
+    expect(JSON.parse(adapter.mock.calls[1][0].data)).toEqual({
+      resend_autoresponders: true,
+      fields: { companySize: 50 },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import MailerLite from "../src/index";
+import { CircuitBreaker } from "../src/circuitBreaker";
+import {
+  CircuitOpenError,
+  HttpError,
+  RateLimitError,
+  ServerError,
+} from "../src/errors";
+import { silentLogger } from "../src/logger";
+import { statusAdapter, statusError } from "./helpers/adapters";
+
+describe("CircuitBreaker", () => {
+  it("opens once the failure rate reaches the threshold", () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 0.5,
+      minimumRequests: 4,
+      onStateChange,
+    });
+
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordError(statusError(503));
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordError(statusError(500));
+    expect(breaker.getState()).toBe("open");
+    expect(onStateChange).toHaveBeenCalledWith("open", "closed");
+    expect(() => breaker.acquire("GET", "groups")).toThrow(CircuitOpenError);
+  });
+
+  it("does not count 429s and client errors as failures", () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2 });
+
+    breaker.recordError(statusError(429));
+    breaker.recordError(statusError(429));
+    breaker.recordError(statusError(404));
+    breaker.recordError(statusError(422));
+    breaker.recordError(statusError(503));
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("lets a probe through when half-open and closes on success", async () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker({
+      minimumRequests: 1,
+      resetTimeout: 10,
+      onStateChange,
+    });
+
+    breaker.recordError(statusError(503));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    breaker.acquire();
+    expect(breaker.getState()).toBe("half-open");
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+    expect(onStateChange.mock.calls).toEqual([
+      ["open", "closed"],
+      ["half-open", "open"],
+      ["closed", "half-open"],
+    ]);
+  });
+
+  it("opens again when the probe fails", async () => {
+    const breaker = new CircuitBreaker({
+      minimumRequests: 1,
+      resetTimeout: 10,
+    });
+
+    breaker.recordError(statusError(503));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    breaker.acquire();
+    breaker.recordError(statusError(502));
+
+    expect(breaker.getState()).toBe("open");
+  });
+});
+
+describe("client circuit breaker", () => {
+  it("fails fast without sending requests once open", async () => {
+    const adapter = statusAdapter([503, 503]);
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      logger: silentLogger,
+      retry: false,
+      circuitBreaker: { minimumRequests: 2 },
+    });
+
+    await expect(mailerLite.getGroups()).rejects.toBeInstanceOf(ServerError);
+    await expect(mailerLite.getGroups()).rejects.toBeInstanceOf(ServerError);
+    await expect(mailerLite.getGroups()).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(mailerLite.getCircuitState()).toBe("open");
+  });
+
+  it("ignores rate limited requests", async () => {
+    const adapter = statusAdapter([429, 429]);
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      logger: silentLogger,
+      enableRateLimit: false,
+      circuitBreaker: { minimumRequests: 1 },
+    });
+
+    await expect(mailerLite.getGroups()).rejects.toBeInstanceOf(RateLimitError);
+    await expect(mailerLite.getGroups()).rejects.toBeInstanceOf(RateLimitError);
+    expect(mailerLite.getCircuitState()).toBe("closed");
+  });
+});
@@ -0,0 +1,99 @@
+import MailerLite from "../src/index";
+import { mockAdapter } from "./helpers/adapters";
+
+const slowAdapter = () =>
+  mockAdapter({ id: 1, email: "john@doe.com" }, { delay: 10 });
+
+describe("request coalescing", () => {
+  it("shares one request between identical concurrent GETs", async () => {
+    const adapter = slowAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      coalesce: true,
+    });
+
+    const results = await Promise.all([
+      mailerLite.getSubscriber("john@doe.com"),
+      mailerLite.getSubscriber("john@doe.com"),
+      mailerLite.getSubscriber("john@doe.com"),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(results[1]).toEqual(results[0]);
+    expect(results[1]).not.toBe(results[0]);
+    expect(mailerLite.getCoalescingStats()).toEqual({
+      requests: 3,
+      coalesced: 2,
+      inFlight: 0,
+    });
+  });
+
+  it("keeps different URLs, params and later calls apart", async () => {
+    const adapter = slowAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      coalesce: true,
+    });
+
+    await Promise.all([
+      mailerLite.getSubscriber("john@doe.com"),
+      mailerLite.getSubscriber("jane@doe.com"),
+      mailerLite.getSubscribers({ limit: 10, offset: 0 }),
+      mailerLite.getSubscribers({ offset: 0, limit: 10 }),
+      mailerLite.getSubscribers({ limit: 20 }),
+    ]);
+    await mailerLite.getSubscriber("john@doe.com");
+
+    expect(adapter).toHaveBeenCalledTimes(5);
+    expect(mailerLite.getCoalescingStats()?.coalesced).toBe(1);
+  });
+
+  it("keeps calls with their own headers or options apart", async () => {
+    const adapter = slowAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      coalesce: true,
+    });
+
+    await Promise.all([
+      mailerLite.getGroup(1, { headers: { "X-Tenant": "acme" } }),
+      mailerLite.getGroup(1, { headers: { "X-Tenant": "globex" } }),
+      mailerLite.getGroup(1, { headers: { "X-Tenant": "globex" } }),
+      mailerLite.getGroup(1, { timeout: 500 }),
+      mailerLite.getGroup(1, { cache: false }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(4);
+    expect(
+      adapter.mock.calls.map(([config]) => config.headers?.["X-Tenant"]),
+    ).toEqual(["acme", "globex", undefined, undefined]);
+  });
+
+  it("does not share mutations or calls with their own signal", async () => {
+    const adapter = slowAdapter();
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter },
+      coalesce: true,
+    });
+    const controller = new AbortController();
+
+    await Promise.all([
+      mailerLite.createGroup({ name: "test" }),
+      mailerLite.createGroup({ name: "test" }),
+      mailerLite.getGroup(1),
+      mailerLite.getGroup(1, { signal: controller.signal }),
+    ]);
+
+    expect(adapter).toHaveBeenCalledTimes(4);
+  });
+
+  it("is disabled by default", async () => {
+    const adapter = slowAdapter();
+    const mailerLite = MailerLite("secret", { axiosOptions: { adapter } });
+
+    await Promise.all([mailerLite.getGroup(1), mailerLite.getGroup(1)]);
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(mailerLite.getCoalescingStats()).toBeNull();
+  });
+});
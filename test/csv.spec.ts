@@ -0,0 +1,231 @@
+import { createFakeMailerLite } from "../src/fake";
+import {
+  exportSubscribersCsv,
+  importSubscribersCsv,
+  parseCsv,
+  parseSubscribersCsv,
+} from "../src/csv";
+import type { Field } from "../src/types";
+
+const collect = async (lines: AsyncIterable<string>) => {
+  let csv = "";
+  for await (const line of lines) csv += line;
+  return csv;
+};
+
+describe("parseCsv", () => {
+  it("handles quotes, byte order marks and line endings", () => {
+    const csv =
+      "\uFEFFemail;note\r\n" +
+      '"john@doe.com";"Says ""hi""; twice"\r\n\r\n' +
+      'jane@doe.com;"Two\nlines"\nbob@doe.com;it"s';
+
+    expect(parseCsv(csv)).toEqual([
+      ["email", "note"],
+      ["john@doe.com", 'Says "hi"; twice'],
+      ["jane@doe.com", "Two\nlines"],
+      ["bob@doe.com", 'it"s'],
+    ]);
+  });
+
+  it("detects the delimiter of the header line only", () => {
+    expect(parseCsv("email\tname\n'a,b,c'\tJohn")).toEqual([
+      ["email", "name"],
+      ["'a,b,c'", "John"],
+    ]);
+    expect(parseCsv('"a,b"|c', { delimiter: "|" })).toEqual([["a,b", "c"]]);
+  });
+
+  it("rejects unterminated quotes", () => {
+    expect(() => parseCsv('email\n"john@doe.com\n')).toThrow(
+      "Unterminated quoted value in the row starting on line 2",
+    );
+  });
+});
+
+describe("parseSubscribersCsv", () => {
+  const fields = [
+    { key: "email", type: "TEXT" },
+    { key: "name", type: "TEXT" },
+    { key: "company_size", type: "NUMBER" },
+  ] as Field[];
+
+  it("maps headers and reports invalid rows", () => {
+    const csv = [
+      "E-mail,First name,Company size,Status,Notes,Ignored",
+      "john@doe.com,John,50,Active,,x",
+      'jane@doe.com,"Jane',
+      'Doe",many,,,x',
+      "nope,Bob,,,,x",
+      ",Nobody,,unknown,,x",
+      "short@doe.com,Short",
+    ].join("\n");
+
+    const result = parseSubscribersCsv(csv, {
+      fields,
+      columns: { Ignored: null },
+    });
+
+    expect(result.subscribers).toEqual([
+      {
+        email: "john@doe.com",
+        name: "John",
+        type: "active",
+        fields: { company_size: 50 },
+      },
+    ]);
+    expect(result.errors).toEqual([
+      {
+        line: 3,
+        email: "jane@doe.com",
+        message: 'Invalid number "many" for company_size',
+      },
+      { line: 5, email: "nope", message: "Invalid email" },
+      { line: 6, message: 'Invalid type "unknown", Missing email' },
+      { line: 7, email: "short@doe.com", message: "Expected 6 values, got 2" },
+    ]);
+    expect(result.unmappedHeaders).toEqual(["Notes"]);
+  });
+
+  it("keeps unknown columns as fields without the account fields", () => {
+    const result = parseSubscribersCsv(
+      "Mail;Plan;Resubscribe\njohn@doe.com;pro;yes",
+      { columns: { Mail: "email" } },
+    );
+
+    expect(result.subscribers).toEqual([
+      { email: "john@doe.com", resubscribe: true, fields: { plan: "pro" } },
+    ]);
+  });
+
+  it("needs an email column", () => {
+    expect(() => parseSubscribersCsv("name\nJohn")).toThrow("email column");
+  });
+});
+
+describe("CSV export and import", () => {
+  it("exports the subscribers of a group with the chosen columns", async () => {
+    const fake = createFakeMailerLite();
+    await fake.createField({ title: "Company size", type: "NUMBER" });
+    const { id } = await fake.createGroup({ name: "Customers" });
+    await fake.addSubscriberToGroup(id, {
+      email: "john@doe.com",
+      name: 'John "JD" Doe',
+      fields: { company: "ACME, Inc.", company_size: 50 },
+    });
+    await fake.addSubscriber({ email: "other@doe.com" });
+
+    const csv = await collect(
+      exportSubscribersCsv(fake, {
+        groupId: id,
+        columns: ["email", "name", "company", "company_size", "city"],
+        pageSize: 1,
+      }),
+    );
+
+    expect(csv).toBe(
+      "email,name,company,company_size,city\r\n" +
+        'john@doe.com,"John ""JD"" Doe","ACME, Inc.",50,\r\n',
+    );
+    expect(parseCsv(csv)[1]).toEqual([
+      "john@doe.com",
+      'John "JD" Doe',
+      "ACME, Inc.",
+      "50",
+      "",
+    ]);
+  });
+
+  it("exports every field by default", async () => {
+    const fake = createFakeMailerLite();
+    await fake.addSubscriber({ email: "john@doe.com", type: "unsubscribed" });
+
+    const lines = exportSubscribersCsv(fake, {
+      type: "unsubscribed",
+      delimiter: ";",
+      bom: true,
+    });
+
+    expect(await collect(lines)).toBe(
+      "\uFEFFemail;name;type;last_name;company;country;city;phone;state;zip\r\n" +
+        "john@doe.com;;unsubscribed;;;;;;;\r\n",
+    );
+    await expect(
+      collect(exportSubscribersCsv(fake, { columns: ["plan"] })),
+    ).rejects.toThrow('Unknown column "plan"');
+  });
+
+  it("escapes values spreadsheets would run as formulas", async () => {
+    const fake = createFakeMailerLite();
+    await fake.createField({ title: "Balance", type: "NUMBER" });
+    await fake.addSubscriber({
+      email: "john@doe.com",
+      name: '=HYPERLINK("https://evil.example","Click")',
+      fields: { company: "@ACME", balance: -5 },
+    });
+    const columns = ["email", "name", "company", "balance"];
+
+    expect(await collect(exportSubscribersCsv(fake, { columns }))).toBe(
+      "email,name,company,balance\r\n" +
+        'john@doe.com,"\'=HYPERLINK(""https://evil.example"",""Click"")",\'@ACME,-5\r\n',
+    );
+    expect(
+      await collect(
+        exportSubscribersCsv(fake, { columns, escapeFormulas: false }),
+      ),
+    ).toContain(",@ACME,");
+  });
+
+  it("imports escaped values as they were exported", async () => {
+    const fake = createFakeMailerLite();
+    const fields = {
+      phone: "+49 30 1234",
+      company: "@ACME",
+      city: "'=quoted",
+      state: "-",
+    };
+    await fake.addSubscriber({ email: "john@doe.com", fields });
+
+    const csv = await collect(
+      exportSubscribersCsv(fake, {
+        columns: ["email", "phone", "company", "city", "state"],
+      }),
+    );
+
+    expect(csv).toContain(",'+49 30 1234,'@ACME,''=quoted,'-");
+    expect(parseSubscribersCsv(csv).subscribers).toEqual([
+      { email: "john@doe.com", fields },
+    ]);
+  });
+
+  it("imports the valid rows into a group", async () => {
+    const fake = createFakeMailerLite();
+    await fake.createField({ title: "Company size", type: "NUMBER" });
+    const { id } = await fake.createGroup({ name: "Imported" });
+
+    const report = await importSubscribersCsv(
+      fake,
+      id,
+      "Email,Name,Company size,Plan\n" +
+        "john@doe.com,John,50,pro\n" +
+        "jane@doe.com,Jane,,\n" +
+        "broken,Bob,,\n",
+      { chunkSize: 1 },
+    );
+
+    expect(report.imported.map(({ email }) => email)).toEqual([
+      "john@doe.com",
+      "jane@doe.com",
+    ]);
+    expect(report.rowErrors).toEqual([
+      { line: 4, email: "broken", message: "Invalid email" },
+    ]);
+    expect(report.unmappedHeaders).toEqual(["Plan"]);
+    await expect(fake.getSubscriber("john@doe.com")).resolves.toMatchObject({
+      fields: expect.arrayContaining([
+        { key: "company_size", value: 50, type: "NUMBER" },
+      ]),
+    });
+    expect(await fake.getGroupSubscriberCount(id)).toBe(2);
+  });
+});
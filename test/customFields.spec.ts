@@ -0,0 +1,68 @@
+import MailerLite from "../src/index";
+import { mockAdapter } from "./helpers/adapters";
+
+type AccountFields = {
+  company_size: "NUMBER";
+  plan: "TEXT";
+  renewal_date: "DATE";
+};
+
+const subscriberAdapter = () =>
+  mockAdapter({
+    id: 1,
+    email: "john@doe.com",
+    fields: [{ key: "company_size", value: 50, type: "NUMBER" }],
+  });
+
+describe("custom field typing", () => {
+  it("accepts the declared fields and types the returned subscriber", async () => {
+    const adapter = subscriberAdapter();
+    const mailerLite = MailerLite<AccountFields>("secret", {
+      axiosOptions: { adapter },
+    });
+
+    const subscriber = await mailerLite.addSubscriber({
+      email: "john@doe.com",
+      fields: {
+        company_size: 50,
+        plan: "pro",
+        renewal_date: new Date(),
+        city: "Vilnius",
+      },
+    });
+
+    const field = subscriber.fields[0];
+    if (field.key === "company_size") {
+      const size: number | null = field.value;
+      expect(size).toBe(50);
+    }
+  });
+
+  it("rejects unknown field keys and mismatched value types", () => {
+    const mailerLite = MailerLite<AccountFields>("secret");
+
+    // Only type checked, the calls are never awaited
+    const check = () => [
+      // @ts-expect-error misspelled field key
+      mailerLite.updateSubscriber("john@doe.com", { fields: { plann: "pro" } }),
+      mailerLite.addSubscribersToGroup(1, [
+        // @ts-expect-error text value for a number field
+        { email: "john@doe.com", fields: { company_size: "50" } },
+      ]),
+    ];
+
+    expect(check).toBeInstanceOf(Function);
+  });
+
+  it("keeps accepting any field without declared fields", () => {
+    const mailerLite = MailerLite("secret");
+
+    const check = () =>
+      mailerLite.addSubscriber({
+        email: "john@doe.com",
+        fields: { anything: "goes", count: 1 },
+      });
+
+    expect(check).toBeInstanceOf(Function);
+  });
+});
@@ -0,0 +1,94 @@
+import MailerLite, { isDryRunResult } from "../src/index";
+import { silentLogger } from "../src/logger";
+import type { Transport } from "../src/types";
+
+const recordingTransport = () =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(async () => ({
+    status: 200,
+    headers: {},
+    body: '{"group_name":"test"}',
+  }));
+
+describe("dry run", () => {
+  it("records mutations instead of sending them", async () => {
+    const transport = recordingTransport();
+    const onRequest = jest.fn();
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger: silentLogger,
+      dryRun: { onRequest },
+    });
+
+    const result = await mailerLite.updateSubscriber("john@doe.com", {
+      fields: { lastName: "Doe" },
+    });
+    await mailerLite.removeGroup(3);
+
+    expect(transport).not.toHaveBeenCalled();
+    expect(isDryRunResult(result)).toBe(true);
+    expect(result).toMatchObject({
+      dryRun: true,
+      operation: "subscribers.updateSubscriber",
+      method: "PUT",
+      path: "subscribers/john@doe.com",
+      data: { fields: { last_name: "Doe" } },
+    });
+    expect(mailerLite.getDryRunRequests()).toEqual([
+      expect.objectContaining({ method: "PUT" }),
+      expect.objectContaining({
+        operation: "groups.removeGroup",
+        method: "DELETE",
+        path: "groups/3",
+        timestamp: expect.any(String),
+      }),
+    ]);
+    expect(onRequest).toHaveBeenCalledTimes(2);
+
+    mailerLite.clearDryRunRequests();
+    expect(mailerLite.getDryRunRequests()).toEqual([]);
+  });
+
+  it("still sends GET requests", async () => {
+    const transport = recordingTransport();
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger: silentLogger,
+      dryRun: true,
+    });
+
+    await expect(mailerLite.getGroup(1)).resolves.toEqual({
+      groupName: "test",
+    });
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(mailerLite.getDryRunRequests()).toEqual([]);
+  });
+
+  it("can be switched per call", async () => {
+    const transport = recordingTransport();
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger: silentLogger,
+    });
+
+    const dryResult = await mailerLite.removeField(1, { dryRun: true });
+    await mailerLite.removeField(2);
+
+    expect(isDryRunResult(dryResult)).toBe(true);
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[0][0].url).toMatch(/fields\/2$/);
+    expect(mailerLite.getDryRunRequests()).toHaveLength(1);
+  });
+
+  it("lets a call opt out of a dry-run client", async () => {
+    const transport = recordingTransport();
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger: silentLogger,
+      dryRun: true,
+    });
+
+    await mailerLite.createGroup({ name: "test" }, { dryRun: false });
+
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+});
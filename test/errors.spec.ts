@@ -0,0 +1,102 @@
+import {
+  AuthenticationError,
+  HttpError,
+  MailerLiteError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  createMailerLiteError,
+} from "../src/errors.js";
+import { RateLimitHandler } from "../src/rateLimit.js";
+
+const httpError = (
+  status: number,
+  data: any,
+  headers: Record<string, string> = {},
+) => {
+  const config = { method: "post", url: "subscribers" };
+
+  return new HttpError("Request failed", "ERR_BAD_REQUEST", config, {
+    status,
+    data,
+    headers,
+    config,
+  });
+};
+
+describe("errors", () => {
+  it("maps status codes to error classes", () => {
+    expect(createMailerLiteError(httpError(401, {}))).toBeInstanceOf(
+      AuthenticationError,
+    );
+    expect(createMailerLiteError(httpError(404, {}))).toBeInstanceOf(
+      NotFoundError,
+    );
+    expect(createMailerLiteError(httpError(422, {}))).toBeInstanceOf(
+      ValidationError,
+    );
+    expect(createMailerLiteError(httpError(503, {}))).toBeInstanceOf(
+      ServerError,
+    );
+    expect(createMailerLiteError(httpError(409, {}))).toBeInstanceOf(
+      MailerLiteError,
+    );
+  });
+
+  it("carries request details and the camelCased payload", () => {
+    const error = createMailerLiteError(
+      httpError(404, {
+        error: { code: 123, message: "Subscriber not found" },
+      }),
+    );
+
+    expect(error.message).toBe("Subscriber not found");
+    expect(error.method).toBe("POST");
+    expect(error.path).toBe("subscribers");
+    expect(error.status).toBe(404);
+    expect(error.code).toBe(123);
+    expect(error.cause).toBeInstanceOf(HttpError);
+  });
+
+  it("parses per-field validation messages", () => {
+    const error = createMailerLiteError(
+      httpError(400, {
+        error: {
+          code: 400,
+          message: "Validation failed",
+          error_details: {
+            email: ["The email must be a valid email address."],
+            name: "Too long",
+          },
+        },
+      }),
+    ) as ValidationError;
+
+    expect(error.fields).toEqual({
+      email: ["The email must be a valid email address."],
+      name: ["Too long"],
+    });
+  });
+
+  it("makes rate limit errors part of the hierarchy", () => {
+    const error = new RateLimitHandler().createRateLimitError(
+      httpError(
+        429,
+        {},
+        {
+          "x-ratelimit-limit": "60",
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": new Date().toISOString(),
+          "x-ratelimit-retry-after": "12",
+        },
+      ),
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toBeInstanceOf(MailerLiteError);
+    expect(error.isRateLimitError).toBe(true);
+    expect(error.rateLimitHeaders.retryAfter).toBe(12);
+    expect(error.status).toBe(429);
+  });
+});
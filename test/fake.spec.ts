@@ -0,0 +1,179 @@
+import { createFakeMailerLite } from "../src/fake";
+import { NotFoundError, RateLimitError, ValidationError } from "../src/errors";
+
+describe("createFakeMailerLite", () => {
+  it("keeps group memberships consistent", async () => {
+    const fake = createFakeMailerLite();
+    const { id: groupId } = await fake.createGroup({ name: "VIP" });
+
+    const subscriber = await fake.addSubscriberToGroup(groupId, {
+      email: "John@Doe.com",
+      name: "John",
+      fields: { company: "ACME" },
+    });
+    await fake.addSubscriberToGroup(groupId, { email: "jane@doe.com" });
+
+    expect(subscriber).toMatchObject({
+      email: "john@doe.com",
+      name: "John",
+      type: "active",
+      openedRate: 0,
+      dateCreated: expect.any(String),
+    });
+    expect(subscriber.fields).toContainEqual({
+      key: "company",
+      value: "ACME",
+      type: "TEXT",
+    });
+    expect(await fake.getGroupSubscriberCount(groupId)).toBe(2);
+    expect(
+      (await fake.getGroupSubscribers(groupId)).map(({ email }) => email),
+    ).toEqual(["john@doe.com", "jane@doe.com"]);
+    await expect(fake.getGroup(groupId)).resolves.toMatchObject({
+      total: 2,
+      active: 2,
+    });
+
+    await fake.removeGroupSubscriber(groupId, "jane@doe.com");
+    await fake.updateSubscriber("john@doe.com", { type: "unsubscribed" });
+    expect(await fake.getGroupSubscriberCount(groupId)).toBe(1);
+    expect(
+      await fake.getGroupSubscribersCountByType(groupId, "unsubscribed"),
+    ).toBe(1);
+    await expect(fake.getSubscriberGroups(subscriber.id)).resolves.toHaveLength(
+      1,
+    );
+  });
+
+  it("cascades group removals", async () => {
+    const fake = createFakeMailerLite();
+    const { id } = await fake.createGroup({ name: "Temporary" });
+    await fake.addSubscriberToGroup(id, { email: "john@doe.com" });
+
+    await fake.removeGroup(id);
+
+    await expect(fake.getGroup(id)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(fake.getSubscriberGroups("john@doe.com")).resolves.toEqual([]);
+    await expect(fake.getSubscriber("john@doe.com")).resolves.toBeDefined();
+  });
+
+  it("reports imports like the API", async () => {
+    const fake = createFakeMailerLite();
+    const { id } = await fake.createGroup({ name: "Import" });
+    await fake.addSubscriber({ email: "old@doe.com", name: "Old" });
+    await fake.addSubscriber({ email: "same@doe.com", name: "Same" });
+
+    const status = await fake.addSubscribersToGroup(
+      id,
+      [
+        { email: "new@doe.com" },
+        { email: "old@doe.com", name: "Renamed" },
+        { email: "same@doe.com", name: "Same" },
+        { email: "not-an-email" },
+      ],
+      { returnStatus: true },
+    );
+
+    expect(status.imported.map(({ email }) => email)).toEqual(["new@doe.com"]);
+    expect(status.updated.map(({ name }) => name)).toEqual(["Renamed"]);
+    expect(status.unchanged).toHaveLength(1);
+    expect(status.errors).toEqual([
+      expect.objectContaining({ email: "not-an-email" }),
+    ]);
+    await expect(
+      fake.getSubscribersGroupImport(id, status.importProgress?.id as string),
+    ).resolves.toEqual(status);
+  });
+
+  it("validates payloads and finds missing records", async () => {
+    const fake = createFakeMailerLite();
+
+    const invalid = fake.addSubscriber({ email: "nope" });
+    await expect(invalid).rejects.toBeInstanceOf(ValidationError);
+    await expect(invalid).rejects.toMatchObject({
+      status: 422,
+      fields: { email: [expect.stringContaining("valid email")] },
+    });
+    await expect(fake.getSubscriber("404")).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+  });
+
+  it("injects rate limits and validation errors", async () => {
+    const fake = createFakeMailerLite({ rateLimitRetryAttempts: 0 });
+
+    fake.injectRateLimit({ operation: "getGroups", retryAfter: 30 });
+    const limited = fake.getGroups();
+    await expect(limited).rejects.toBeInstanceOf(RateLimitError);
+    await expect(limited).rejects.toMatchObject({
+      rateLimitHeaders: { retryAfter: 30 },
+    });
+    await expect(fake.getGroups()).resolves.toEqual([]);
+
+    fake.injectValidationError({
+      operation: "groups.createGroup",
+      times: 2,
+      fields: { name: ["Too long"] },
+    });
+    await expect(fake.getFields()).resolves.toHaveLength(9);
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expect(fake.createGroup({ name: "VIP" })).rejects.toMatchObject({
+        fields: { name: ["Too long"] },
+      });
+    }
+    await expect(fake.createGroup({ name: "VIP" })).resolves.toBeDefined();
+  });
+
+  it("lets the client retry injected rate limits", async () => {
+    const fake = createFakeMailerLite({ rateLimitRetryDelay: 1 });
+    fake.injectRateLimit({ times: 2 });
+
+    await expect(fake.getStats()).resolves.toMatchObject({ subscribed: 0 });
+  });
+
+  it("records the sendings of campaigns", async () => {
+    const fake = createFakeMailerLite();
+    const { id: groupId } = await fake.createGroup({ name: "News" });
+    await fake.addSubscriberToGroup(groupId, { email: "john@doe.com" });
+
+    const campaign = await fake.createCampaign({
+      type: "regular",
+      subject: "Hello",
+      groups: [groupId],
+    });
+    await fake.setCampaignContent(campaign.id, {
+      html: "<p>Hi</p>",
+      plain: "Hi",
+    });
+    await fake.actOnCampaign(campaign.id, "send");
+
+    expect(await fake.getCampaignCount("sent")).toBe(1);
+    await expect(
+      fake.getSubscriberActivityByType("john@doe.com", "sendings"),
+    ).resolves.toEqual([
+      expect.objectContaining({ subject: "Hello", type: "sendings" }),
+    ]);
+    await expect(fake.getSubscriber("john@doe.com")).resolves.toMatchObject({
+      sent: 1,
+    });
+  });
+
+  it("serves seeded segments and forgets everything on reset", async () => {
+    const fake = createFakeMailerLite({
+      segments: [{ title: "Engaged", total: 3 }],
+    });
+    await fake.createWebhook({
+      event: "subscriber.create",
+      url: "https://example.com",
+    });
+
+    await expect(fake.getSegments()).resolves.toEqual([
+      expect.objectContaining({ title: "Engaged", total: 3 }),
+    ]);
+    expect(await fake.getWebhooksCount()).toBe(1);
+
+    fake.reset();
+    expect(await fake.getWebhooksCount()).toBe(0);
+    expect(await fake.getSegmentsCount()).toBe(1);
+  });
+});
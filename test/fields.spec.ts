@@ -1,10 +1,10 @@
 import 'jest-extended'
 import axios from '../src/client'
 import fieldsMethods from '../src/api/fields'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('fields', () => {
-  const client = fieldsMethods(axios(testApiKey))
+  const client = fieldsMethods(axios(testApiKey, fixtureOptions('fields')))
 
   it('gets account fields', async () => {
     await expect(client
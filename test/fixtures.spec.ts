@@ -0,0 +1,202 @@
+import { mkdir, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import MailerLite from "../src/index";
+import { fixtureTransport } from "../src/fixtures";
+import { MailerLiteError } from "../src/errors";
+import { silentLogger } from "../src/logger";
+import type { Fixture, Transport } from "../src/types";
+
+// Live API stand-in, echoing the API key like an account endpoint would
+const liveTransport = () =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(async (request) => ({
+    status: 200,
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      path: new URL(request.url).pathname,
+      api_key: request.headers["X-MailerLite-ApiKey"],
+    }),
+  }));
+
+const fixtures: Fixture[] = [
+  {
+    request: {
+      method: "GET",
+      url: "https://api.mailerlite.com/api/v2/groups/1",
+    },
+    response: { status: 200, headers: {}, body: '{"group_name":"VIP"}' },
+  },
+  {
+    request: {
+      method: "POST",
+      url: "https://api.mailerlite.com/api/v2/groups",
+      body: '{"name":"New"}',
+    },
+    response: { status: 200, headers: {}, body: '{"name":"New"}' },
+  },
+];
+
+describe("fixture transport", () => {
+  it("records requests and responses without the API key", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mailerlite-fixtures-"));
+    const file = join(dir, "nested", "groups.json");
+    const transport = liveTransport();
+
+    try {
+      const mailerLite = MailerLite("secret-key", {
+        transport: fixtureTransport(file, { mode: "record", transport }),
+        logger: silentLogger,
+      });
+      await mailerLite.getGroup(1);
+      await mailerLite.createGroup({ name: "New" });
+
+      const content = await readFile(file, "utf8");
+      expect(content).not.toContain("secret-key");
+      expect(JSON.parse(content)).toEqual([
+        {
+          request: {
+            method: "GET",
+            url: "https://api.mailerlite.com/api/v2/groups/1",
+          },
+          response: {
+            status: 200,
+            headers: { "content-type": "application/json" },
+            body: '{"path":"/api/v2/groups/1","api_key":"[REDACTED]"}',
+          },
+        },
+        expect.objectContaining({
+          request: expect.objectContaining({ body: '{"name":"New"}' }),
+        }),
+      ]);
+
+      // A recording replays offline, under any API key
+      const replayed = MailerLite("other-key", {
+        transport: fixtureTransport(file),
+        logger: silentLogger,
+      });
+      await expect(replayed.getGroup(1)).resolves.toEqual({
+        path: "/api/v2/groups/1",
+        apiKey: "[REDACTED]",
+      });
+      expect(transport).toHaveBeenCalledTimes(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("goes on recording after a fixture file could not be saved", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mailerlite-fixtures-"));
+    const file = join(dir, "groups.json");
+    const logger = { ...silentLogger, error: jest.fn() };
+
+    try {
+      const mailerLite = MailerLite("secret-key", {
+        transport: fixtureTransport(file, {
+          mode: "record",
+          transport: liveTransport(),
+          logger,
+        }),
+        logger: silentLogger,
+      });
+
+      // A directory in place of the file fails the first save
+      await mkdir(file);
+      await expect(mailerLite.getGroup(1)).resolves.toBeDefined();
+      expect(logger.error).toHaveBeenCalledWith(
+        "MailerLite API: Saving the fixtures failed",
+        expect.objectContaining({ file }),
+      );
+
+      await rm(file, { recursive: true });
+      await mailerLite.createGroup({ name: "New" });
+      const saved: Fixture[] = JSON.parse(await readFile(file, "utf8"));
+      expect(saved.map(({ request }) => request.method)).toEqual([
+        "GET",
+        "POST",
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("records concurrent requests in the order they were sent", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "mailerlite-fixtures-"));
+    const file = join(dir, "concurrent.json");
+    // The first request answers last
+    const transport: Transport = async (request) => {
+      const id = request.url.split("/").pop() as string;
+      await new Promise((resolve) => setTimeout(resolve, 30 - 10 * +id));
+      return { status: 200, headers: {}, body: `{"name":"Group ${id}"}` };
+    };
+
+    try {
+      const recording = MailerLite("secret", {
+        transport: fixtureTransport(file, { mode: "record", transport }),
+        logger: silentLogger,
+      });
+      await Promise.all([1, 2, 3].map((id) => recording.getGroup(id)));
+
+      const recorded: Fixture[] = JSON.parse(await readFile(file, "utf8"));
+      expect(recorded.map(({ request }) => request.url)).toEqual([
+        "https://api.mailerlite.com/api/v2/groups/1",
+        "https://api.mailerlite.com/api/v2/groups/2",
+        "https://api.mailerlite.com/api/v2/groups/3",
+      ]);
+
+      const replayed = MailerLite("secret", {
+        transport: fixtureTransport(file),
+        logger: silentLogger,
+      });
+      await expect(
+        Promise.all([1, 2, 3].map((id) => replayed.getGroup(id))),
+      ).resolves.toEqual([
+        { name: "Group 1" },
+        { name: "Group 2" },
+        { name: "Group 3" },
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("replays the fixtures in order", async () => {
+    const mailerLite = MailerLite("secret", {
+      transport: fixtureTransport(fixtures),
+      logger: silentLogger,
+    });
+
+    await expect(mailerLite.getGroup(1)).resolves.toEqual({ groupName: "VIP" });
+    await expect(mailerLite.createGroup({ name: "New" })).resolves.toEqual({
+      name: "New",
+    });
+  });
+
+  it("rejects requests that were not recorded", async () => {
+    const mailerLite = MailerLite("secret", {
+      transport: fixtureTransport(fixtures),
+      logger: silentLogger,
+    });
+
+    const mismatch = mailerLite.getGroup(2);
+    await expect(mismatch).rejects.toBeInstanceOf(MailerLiteError);
+    await expect(mismatch).rejects.toMatchObject({
+      code: "ERR_FIXTURE_MISMATCH",
+      message: expect.stringContaining("expected fixture 1: GET"),
+    });
+
+    await mailerLite.getGroup(1);
+    await expect(
+      mailerLite.createGroup({ name: "Other" }),
+    ).rejects.toMatchObject({ code: "ERR_FIXTURE_MISMATCH" });
+    await mailerLite.createGroup({ name: "New" });
+    await expect(mailerLite.getGroup(1)).rejects.toThrow(
+      "all 2 fixtures were replayed",
+    );
+  });
+
+  it("needs a file to record to", () => {
+    expect(() => fixtureTransport(fixtures, { mode: "record" })).toThrow(
+      "file path",
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import MailerLite from "../src/index";
+import { createFakeMailerLite } from "../src/fake";
+import { silentLogger } from "../src/logger";
+import type { GroupImportProgress, Transport } from "../src/types";
+
+const subscriber = (email: string) => ({
+  id: email.length,
+  email,
+  fields: [],
+});
+
+describe("importSubscribersToGroup", () => {
+  it("imports in chunks and polls unfinished imports", async () => {
+    const responses = [
+      // First chunk, still running in the background
+      { import_progress: { id: 10, done: false, total: 2, processed: 1 } },
+      {
+        imported: [subscriber("a@doe.com")],
+        updated: [subscriber("b@doe.com")],
+        unchanged: [],
+        errors: [],
+        import_progress: { id: 10, done: true, total: 2, processed: 2 },
+      },
+      // Second chunk, finished right away
+      {
+        imported: [],
+        updated: [],
+        unchanged: [subscriber("c@doe.com")],
+        errors: [{ email: "d", message: "Invalid email" }],
+        mx_errors: [],
+      },
+    ];
+    const transport = jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+      async () => ({
+        status: 200,
+        headers: {},
+        body: JSON.stringify(responses.shift()),
+      }),
+    );
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger: silentLogger,
+    });
+    const progress: GroupImportProgress[] = [];
+    const onChunk = jest.fn();
+
+    const report = await mailerLite.importSubscribersToGroup(
+      3,
+      [
+        { email: "a@doe.com" },
+        { email: "b@doe.com" },
+        { email: "c@doe.com" },
+        { email: "d" },
+      ],
+      {
+        chunkSize: 2,
+        pollInterval: 1,
+        resubscribe: true,
+        onProgress: (update) => progress.push(update),
+        onChunk,
+      },
+    );
+
+    expect(
+      transport.mock.calls.map(([request]) => [request.method, request.url]),
+    ).toEqual([
+      ["POST", "https://api.mailerlite.com/api/v2/groups/3/subscribers/import"],
+      [
+        "GET",
+        "https://api.mailerlite.com/api/v2/groups/3/subscribers/import/10",
+      ],
+      ["POST", "https://api.mailerlite.com/api/v2/groups/3/subscribers/import"],
+    ]);
+    expect(JSON.parse(transport.mock.calls[2][0].body as string)).toEqual({
+      subscribers: [{ email: "c@doe.com" }, { email: "d" }],
+      resubscribe: true,
+      return_status: true,
+    });
+    expect(report).toEqual({
+      imported: [expect.objectContaining({ email: "a@doe.com" })],
+      updated: [expect.objectContaining({ email: "b@doe.com" })],
+      unchanged: [expect.objectContaining({ email: "c@doe.com" })],
+      errors: [{ email: "d", message: "Invalid email" }],
+      unknown: [],
+    });
+    expect(progress).toEqual([
+      { chunk: 1, chunks: 2, processed: 1, total: 4 },
+      { chunk: 1, chunks: 2, processed: 2, total: 4 },
+      { chunk: 2, chunks: 2, processed: 4, total: 4 },
+    ]);
+    expect(onChunk).toHaveBeenCalledTimes(2);
+    expect(onChunk).toHaveBeenLastCalledWith(
+      expect.objectContaining({ unchanged: expect.any(Array) }),
+      2,
+    );
+  });
+
+  it("reports failed chunks and goes on", async () => {
+    const fake = createFakeMailerLite();
+    const { id } = await fake.createGroup({ name: "Import" });
+    fake.injectValidationError({
+      operation: "addSubscribersToGroup",
+      message: "Too many subscribers",
+    });
+
+    const report = await fake.importSubscribersToGroup(
+      id,
+      [{ email: "a@doe.com" }, { email: "b@doe.com" }, { email: "c@doe.com" }],
+      { chunkSize: 2 },
+    );
+
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        email: "a@doe.com",
+        message: "Too many subscribers",
+      }),
+      expect.objectContaining({ email: "b@doe.com" }),
+    ]);
+    expect(report.imported.map(({ email }) => email)).toEqual(["c@doe.com"]);
+    expect(await fake.getGroupSubscriberCount(id)).toBe(1);
+  });
+
+  it("reports chunks whose import could not be polled", async () => {
+    const transport = jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+      async ({ method }) =>
+        method === "POST"
+          ? {
+              status: 200,
+              headers: {},
+              body: JSON.stringify({
+                import_progress: { id: 10, done: false, total: 2 },
+              }),
+            }
+          : { status: 503, headers: {}, body: "{}" },
+    );
+    const mailerLite = MailerLite("secret", {
+      transport,
+      logger: silentLogger,
+      retry: false,
+    });
+
+    const report = await mailerLite.importSubscribersToGroup(
+      3,
+      [{ email: "a@doe.com" }, { email: "b@doe.com" }, { email: "c@doe.com" }],
+      { chunkSize: 2, pollInterval: 1 },
+    );
+
+    expect(transport).toHaveBeenCalledTimes(4);
+    expect(report.errors).toEqual([]);
+    expect(report.unknown).toEqual([
+      {
+        importId: "10",
+        emails: ["a@doe.com", "b@doe.com"],
+        error: expect.any(String),
+        message: expect.any(String),
+      },
+      {
+        importId: "10",
+        emails: ["c@doe.com"],
+        error: expect.any(String),
+        message: expect.any(String),
+      },
+    ]);
+  });
+
+  it("stops when the call is aborted", async () => {
+    const fake = createFakeMailerLite();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      fake.importSubscribersToGroup(1, [{ email: "a@doe.com" }], {
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("rejects an invalid chunk size", async () => {
+    const fake = createFakeMailerLite();
+
+    await expect(
+      fake.importSubscribersToGroup(1, [], { chunkSize: 0 }),
+    ).rejects.toThrow("chunkSize");
+  });
+});
@@ -1,14 +1,21 @@
 import "jest-extended";
 import axiosFactory from "../src/client";
 import groupsMethods, { MailerLiteGroup } from "../src/api/groups";
-import { testApiKey, testSubscriberEmail } from "../config";
+import {
+  fixtureOptions,
+  testApiKey,
+  testSubscriberEmail,
+} from "./helpers/fixtures";
 
-const subscriberEmail = testSubscriberEmail ?? "john@doe.com";
+const subscriberEmail = testSubscriberEmail;
+
+// One transport for the whole file, the fixtures are replayed in order
+const options = fixtureOptions("groups");
 
 const asyncNoop = async () => {};
 
 const clientFactory = () => {
-  const axios = axiosFactory(testApiKey);
+  const axios = axiosFactory(testApiKey, options);
   const client = groupsMethods(axios);
 
   return { axios, client };
@@ -71,11 +78,15 @@ describe("groups", () => {
         fields: {},
       });
 
-      expect(axiosPost).toHaveBeenCalledWith(`groups/${group.id}/subscribers`, {
-        email: subscriberEmail,
-        fields: {},
-        name: "John Doe",
-      });
+      expect(axiosPost).toHaveBeenCalledWith(
+        `groups/${group.id}/subscribers`,
+        {
+          email: subscriberEmail,
+          fields: {},
+          name: "John Doe",
+        },
+        { operation: "groups.addSubscriberToGroup" },
+      );
     });
 
     it("removes a subscriber from a provided group", async () => {
@@ -89,6 +100,7 @@ describe("groups", () => {
 
       expect(axiosDelete).toHaveBeenCalledWith(
         `groups/${group.id}/subscribers/${subscriberEmail}`,
+        { operation: "groups.removeGroupSubscriber" },
       );
     });
   });
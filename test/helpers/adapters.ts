@@ -0,0 +1,79 @@
+import { AxiosError, type AxiosAdapter } from "axios";
+import { HttpError } from "../../src/errors";
+
+type AdapterConfig = Parameters<AxiosAdapter>[0];
+type ResponseData = object | string | number | boolean | null;
+
+interface AdapterOptions {
+  status?: number;
+  headers?: { [name: string]: string };
+  /**
+   * Milliseconds before the response arrives
+   */
+  delay?: number;
+}
+
+/**
+ * Axios adapter mock answering every request with `data`, or with the data
+ * returned for its request config
+ */
+export const mockAdapter = (
+  data: ResponseData | ((config: AdapterConfig) => ResponseData) = {},
+  { status = 200, headers = {}, delay }: AdapterOptions = {},
+) =>
+  jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>(
+    async (config) => {
+      if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+
+      return {
+        status,
+        statusText: "",
+        data: typeof data === "function" ? data(config) : data,
+        headers,
+        config,
+      };
+    },
+  );
+
+/**
+ * Axios adapter mock answering with the given statuses, then with 200.
+ * Error statuses are rejected the way axios rejects them.
+ */
+export const statusAdapter = (
+  statuses: number[],
+  {
+    data = {},
+    headers = {},
+  }: { data?: ResponseData; headers?: AdapterOptions["headers"] } = {},
+) =>
+  jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>(
+    async (config) => {
+      const status = statuses.shift() ?? 200;
+      const response = { status, statusText: "", data, headers, config };
+
+      if (status >= 400) {
+        throw new AxiosError(
+          "Request failed",
+          status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+          config,
+          null,
+          response,
+        );
+      }
+
+      return response;
+    },
+  );
+
+/**
+ * Transport error of a response with the given status
+ */
+export const statusError = (status: number, method = "get") => {
+  const config = { method, url: "groups" };
+  return new HttpError("Request failed", "ERR_BAD_RESPONSE", config, {
+    status,
+    data: {},
+    headers: {},
+    config,
+  });
+};
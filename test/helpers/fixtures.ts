@@ -0,0 +1,47 @@
+import { join } from "node:path";
+import { fixtureTransport } from "../../src/fixtures";
+import { silentLogger } from "../../src/logger";
+import type { Options } from "../../src/types";
+
+interface TestConfig {
+  testApiKey?: string;
+  testSubscriberEmail?: string;
+}
+
+// config.ts, a copy of config.example.ts, holds the real account used to
+// run the specs live or to record their fixtures
+const loadConfig = (): TestConfig => {
+  try {
+    return require("../../config");
+  } catch {
+    return {};
+  }
+};
+
+const config = loadConfig();
+const live = Boolean(process.env.MAILERLITE_LIVE);
+const record = Boolean(process.env.RECORD_FIXTURES);
+
+export const testApiKey =
+  config.testApiKey ?? process.env.MAILERLITE_API_KEY ?? "replay";
+
+// The synthetic fixtures were made with this subscriber
+export const testSubscriberEmail =
+  (live || record ? config.testSubscriberEmail : undefined) ?? "john@doe.com";
+
+/**
+ * Client options replaying the synthetic responses of
+ * `test/fixtures/<name>.json`, recording them again against the account of
+ * config.ts when `RECORD_FIXTURES` is set, or calling the API itself when
+ * `MAILERLITE_LIVE` is set
+ */
+export const fixtureOptions = (name: string): Options =>
+  live
+    ? { logger: silentLogger }
+    : {
+        transport: fixtureTransport(
+          join(__dirname, "..", "fixtures", `${name}.json`),
+          { mode: record ? "record" : "replay" },
+        ),
+        logger: silentLogger,
+      };
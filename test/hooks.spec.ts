@@ -0,0 +1,117 @@
+import type { AxiosAdapter } from "axios";
+import axiosFactory from "../src/client";
+import groupsMethods from "../src/api/groups";
+import { NotFoundError } from "../src/errors";
+import { mockAdapter } from "./helpers/adapters";
+
+const recordingAdapter = (status = 200, data: any = { group_name: "test" }) =>
+  mockAdapter(data, { status });
+
+describe("hooks", () => {
+  it("passes the operation name and lets hooks change the request", async () => {
+    const adapter = recordingAdapter();
+    const beforeRequest = jest.fn((request) => {
+      request.headers["X-Tenant"] = "acme";
+      request.params = { ...request.params, tenant: "acme" };
+    });
+
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        hooks: { beforeRequest: [beforeRequest] },
+      }),
+    );
+    await client.getGroups({ limit: 5 });
+
+    expect(beforeRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: "groups.getGroups",
+        method: "GET",
+        path: "groups",
+      }),
+    );
+    expect(beforeRequest.mock.calls[0][0].headers).not.toHaveProperty(
+      "X-MailerLite-ApiKey",
+    );
+
+    const config = adapter.mock.calls[0][0];
+    expect(config.url).toBe(
+      "https://api.mailerlite.com/api/v2/groups?limit=5&tenant=acme",
+    );
+    expect(config.headers.get("X-Tenant")).toBe("acme");
+    expect(config.headers.get("X-MailerLite-ApiKey")).toBe("secret");
+  });
+
+  it("short-circuits the call from beforeRequest", async () => {
+    const adapter = recordingAdapter();
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        hooks: {
+          beforeRequest: [
+            () => ({
+              status: 200,
+              headers: {},
+              data: [{ id: 1, name: "stub" }],
+            }),
+          ],
+        },
+      }),
+    );
+
+    await expect(client.getGroups()).resolves.toEqual([
+      { id: 1, name: "stub" },
+    ]);
+    expect(adapter).not.toHaveBeenCalled();
+  });
+
+  it("replaces the response from afterResponse", async () => {
+    const afterResponse = jest.fn((request, response) => ({
+      ...response,
+      data: { ...response.data, audited: true },
+    }));
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter: recordingAdapter() },
+        hooks: { afterResponse: [afterResponse] },
+      }),
+    );
+
+    await expect(client.getGroup(1)).resolves.toEqual({
+      groupName: "test",
+      audited: true,
+    });
+    expect(afterResponse.mock.calls[0][0].operation).toBe("groups.getGroup");
+  });
+
+  it("passes typed errors to onError and lets it recover", async () => {
+    const onError = jest.fn((request, error) =>
+      error instanceof NotFoundError
+        ? { status: 404, headers: {}, data: null }
+        : undefined,
+    );
+    const adapter: AxiosAdapter = async (config) => {
+      const { AxiosError } = await import("axios");
+      throw new AxiosError("Not found", "ERR_BAD_REQUEST", config, null, {
+        status: 404,
+        statusText: "",
+        data: { error: { code: 404, message: "Not found" } },
+        headers: {},
+        config,
+      });
+    };
+
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        hooks: { onError: [onError] },
+      }),
+    );
+
+    await expect(client.getGroup(1)).resolves.toBeNull();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "groups.getGroup" }),
+      expect.any(NotFoundError),
+    );
+  });
+});
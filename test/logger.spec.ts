@@ -0,0 +1,83 @@
+import type { AxiosAdapter } from "axios";
+import axiosFactory from "../src/client";
+import { redactHeaders } from "../src/logger";
+import type { Logger } from "../src/types";
+
+const mockLogger = (): jest.Mocked<Logger> => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+const adapter: AxiosAdapter = async (config) => ({
+  status: 200,
+  statusText: "OK",
+  data: { id: 1 },
+  headers: {
+    "x-ratelimit-limit": "60",
+    "x-ratelimit-remaining": "3",
+    "x-ratelimit-reset": new Date(Date.now() + 30000).toISOString(),
+    "x-ratelimit-retry-after": "0",
+  },
+  config,
+});
+
+describe("logger", () => {
+  it("redacts the API key header", () => {
+    expect(
+      redactHeaders({ "X-MailerLite-ApiKey": "secret", Accept: "json" }),
+    ).toEqual({ "X-MailerLite-ApiKey": "[REDACTED]", Accept: "json" });
+  });
+
+  it("sends rate limit warnings to the configured logger", async () => {
+    const logger = mockLogger();
+    const consoleWarn = jest.spyOn(console, "warn").mockImplementation();
+    const client = axiosFactory("secret", {
+      axiosOptions: { adapter },
+      logger,
+    });
+
+    await client.get("groups");
+
+    expect(consoleWarn).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("3 requests remaining"),
+      expect.objectContaining({
+        method: "GET",
+        path: "groups",
+        status: 200,
+        durationMs: expect.any(Number),
+        rateLimit: expect.objectContaining({ limit: 60, remaining: 3 }),
+      }),
+    );
+  });
+
+  it("logs requests and responses in debug mode without the API key", async () => {
+    const logger = mockLogger();
+    const client = axiosFactory("secret", {
+      axiosOptions: { adapter },
+      logger,
+      debug: true,
+    });
+
+    await client.post("groups", { name: "test" });
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "MailerLite API: Request",
+      expect.objectContaining({
+        method: "POST",
+        path: "groups",
+        data: { name: "test" },
+        headers: expect.objectContaining({
+          "X-MailerLite-ApiKey": "[REDACTED]",
+        }),
+      }),
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      "MailerLite API: Response",
+      expect.objectContaining({ status: 200, data: { id: 1 } }),
+    );
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain("secret");
+  });
+});
@@ -0,0 +1,54 @@
+import "jest-extended";
+import { paginate } from "../src/paginate.js";
+
+const source = Array.from({ length: 25 }, (_, i) => i);
+
+const pageFetcher = () =>
+  jest.fn(async (limit: number, offset: number) =>
+    source.slice(offset, offset + limit),
+  );
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe("paginate", () => {
+  it("walks every page and stops on a short page", async () => {
+    const fetchPage = pageFetcher();
+    const items = await collect(paginate(fetchPage, { pageSize: 10 }));
+
+    expect(items).toEqual(source);
+    expect(fetchPage.mock.calls).toEqual([
+      [10, 0],
+      [10, 10],
+      [10, 20],
+    ]);
+  });
+
+  it("fetches pages lazily", async () => {
+    const fetchPage = pageFetcher();
+    const iterator = paginate(fetchPage, { pageSize: 10 });
+
+    await iterator.next();
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("respects the maximum item count", async () => {
+    const fetchPage = pageFetcher();
+    const items = await collect(
+      paginate(fetchPage, { pageSize: 10, maxItems: 15, offset: 2 }),
+    );
+
+    expect(items).toEqual(source.slice(2, 17));
+    expect(fetchPage.mock.calls).toEqual([
+      [10, 2],
+      [5, 12],
+    ]);
+  });
+
+  it("rejects an invalid page size", async () => {
+    await expect(collect(paginate(pageFetcher(), { pageSize: 0 }))).toReject();
+  });
+});
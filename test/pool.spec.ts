@@ -0,0 +1,118 @@
+import { MailerLitePool } from "../src/pool";
+import { MemoryCacheStore } from "../src/cache";
+import { NotFoundError } from "../src/errors";
+import { silentLogger } from "../src/logger";
+import type { Transport } from "../src/types";
+
+// Transport answering with the API key of the request, or a 404 for "missing"
+const accountTransport = () =>
+  jest.fn<ReturnType<Transport>, Parameters<Transport>>(async (request) => {
+    const apiKey = request.headers["X-MailerLite-ApiKey"];
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    return apiKey === "missing"
+      ? { status: 404, headers: {}, body: '{"error":{"message":"Not found"}}' }
+      : { status: 200, headers: {}, body: JSON.stringify({ api_key: apiKey }) };
+  });
+
+describe("MailerLitePool", () => {
+  it("manages named clients", () => {
+    const pool = new MailerLitePool({ defaults: { logger: silentLogger } });
+
+    const acme = pool.add("acme", "key-acme");
+    pool.add("globex", "key-globex");
+
+    expect(pool.get("acme")).toBe(acme);
+    expect(pool.keys()).toEqual(["acme", "globex"]);
+    expect(pool.size).toBe(2);
+    expect(() => pool.add("acme", "other")).toThrow("already exists");
+
+    expect(pool.remove("globex")).toBe(true);
+    expect(pool.has("globex")).toBe(false);
+  });
+
+  it("fans a call out and collects the errors per account", async () => {
+    const transport = accountTransport();
+    const pool = new MailerLitePool({
+      defaults: { transport, logger: silentLogger },
+    });
+    pool.add("acme", "key-acme");
+    pool.add("globex", "key-globex");
+    pool.add("initech", "missing");
+
+    const { results, errors } = await pool.map(
+      async (client) => await client.getStats(),
+    );
+
+    expect(results).toEqual({
+      acme: { apiKey: "key-acme" },
+      globex: { apiKey: "key-globex" },
+    });
+    expect(Object.keys(errors)).toEqual(["initech"]);
+    expect(errors.initech).toBeInstanceOf(NotFoundError);
+  });
+
+  it("bounds the number of accounts called at once", async () => {
+    const pool = new MailerLitePool({ defaults: { logger: silentLogger } });
+    for (const key of ["a", "b", "c", "d", "e"]) {
+      pool.add(key, `key-${key}`);
+    }
+
+    let running = 0;
+    let peak = 0;
+    await pool.map(
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      },
+      { concurrency: 2 },
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it("keeps the accounts apart in a shared cache store", async () => {
+    const transport = accountTransport();
+    const store = new MemoryCacheStore();
+    const pool = new MailerLitePool({
+      defaults: { transport, logger: silentLogger, cache: { store } },
+    });
+    const acme = pool.add("acme", "key-acme");
+    const globex = pool.add("globex", "key-globex");
+
+    await acme.getFields();
+    await expect(globex.getFields()).resolves.toEqual({
+      apiKey: "key-globex",
+    });
+    await expect(acme.getFields()).resolves.toEqual({ apiKey: "key-acme" });
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it("tags log messages with the account", async () => {
+    const logger = { ...silentLogger, warn: jest.fn() };
+    const pool = new MailerLitePool({
+      defaults: {
+        logger,
+        transport: async () => ({
+          status: 200,
+          headers: {
+            "x-ratelimit-limit": "60",
+            "x-ratelimit-remaining": "1",
+            "x-ratelimit-reset": new Date().toISOString(),
+            "x-ratelimit-retry-after": "0",
+          },
+          body: "{}",
+        }),
+      },
+    });
+
+    await pool.add("acme", "key-acme").getStats();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("1 requests remaining"),
+      expect.objectContaining({ account: "acme" }),
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import MailerLite from "../src/index";
+import { mockAdapter } from "./helpers/adapters";
+
+const rateLimitHeaders = {
+  "x-ratelimit-limit": "120",
+  "x-ratelimit-remaining": "80",
+  "x-ratelimit-reset": "60",
+  "x-ratelimit-retry-after": "0",
+};
+
+const responseAdapter = (status: number, data: any) =>
+  mockAdapter(data, {
+    status,
+    headers: { ...rateLimitHeaders, "x-request-id": "abc" },
+  });
+
+describe("withResponse", () => {
+  it("resolves to the data together with status, headers and rate limit", async () => {
+    const adapter = responseAdapter(200, [{ group_name: "test" }]);
+    const mailerLite = MailerLite("secret", { axiosOptions: { adapter } });
+
+    const response = await mailerLite.withResponse().getGroups();
+
+    expect(response.data).toEqual([{ groupName: "test" }]);
+    expect(response.status).toBe(200);
+    expect(response.headers["x-request-id"]).toBe("abc");
+    expect(response.rateLimit).toMatchObject({ limit: 120, remaining: 80 });
+  });
+
+  it("keeps the result of methods built on other calls", async () => {
+    const adapter = responseAdapter(200, { enabled: true });
+    const mailerLite = MailerLite("secret", { axiosOptions: { adapter } });
+
+    const response = await mailerLite.withResponse().hasEnabledDoubleOptin();
+
+    expect(response.data).toBe(true);
+    expect(response.status).toBe(200);
+  });
+
+  it("leaves out the methods without a single last response", () => {
+    const mailerLite = MailerLite("secret", {
+      axiosOptions: { adapter: responseAdapter(200, []) },
+    });
+
+    const api = mailerLite.withResponse();
+
+    expect(api).toHaveProperty("getGroups");
+    expect(api).not.toHaveProperty("iterateGroups");
+    expect(api).not.toHaveProperty("getSubscriberTimeline");
+    expect(api).not.toHaveProperty("exportSubscriberData");
+  });
+
+  it("does not change the regular methods", async () => {
+    const adapter = responseAdapter(201, { id: 1 });
+    const mailerLite = MailerLite("secret", { axiosOptions: { adapter } });
+
+    mailerLite.withResponse();
+
+    await expect(mailerLite.createGroup({ name: "test" })).resolves.toEqual({
+      id: 1,
+    });
+  });
+});
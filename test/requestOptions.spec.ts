@@ -0,0 +1,195 @@
+import { CanceledError, type AxiosAdapter } from "axios";
+import axiosFactory from "../src/client";
+import groupsMethods from "../src/api/groups";
+import { AbortError, ServerError } from "../src/errors";
+import { silentLogger } from "../src/logger";
+import { mockAdapter, statusAdapter } from "./helpers/adapters";
+
+const recordingAdapter = () => mockAdapter([]);
+
+// Adapter that only settles once the request is aborted
+const hangingAdapter: AxiosAdapter = (config) =>
+  new Promise((_resolve, reject) => {
+    config.signal?.addEventListener?.("abort", () =>
+      reject(new CanceledError(undefined, undefined, config)),
+    );
+  });
+
+describe("per-call request options", () => {
+  it("passes the signal, timeout and extra headers to the request", async () => {
+    const adapter = recordingAdapter();
+    const controller = new AbortController();
+    const client = groupsMethods(
+      axiosFactory("secret", { axiosOptions: { adapter } }),
+    );
+
+    await client.getGroups(
+      { limit: 5 },
+      {
+        signal: controller.signal,
+        timeout: 2000,
+        headers: { "X-Request-Id": "abc" },
+      },
+    );
+
+    const config = adapter.mock.calls[0][0];
+    expect(config.signal).toBe(controller.signal);
+    expect(config.timeout).toBe(2000);
+    expect(config.url).toBe("https://api.mailerlite.com/api/v2/groups?limit=5");
+    expect(config.headers.get("X-Request-Id")).toBe("abc");
+    expect(config.headers.get("X-MailerLite-ApiKey")).toBe("secret");
+  });
+
+  it("rejects an already aborted call with an AbortError", async () => {
+    const adapter = recordingAdapter();
+    const controller = new AbortController();
+    controller.abort();
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        logger: silentLogger,
+      }),
+    );
+
+    await expect(
+      client.getGroup(1, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(adapter).not.toHaveBeenCalled();
+  });
+
+  it("rejects an in-flight call with an AbortError", async () => {
+    const controller = new AbortController();
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter: hangingAdapter },
+        logger: silentLogger,
+      }),
+    );
+
+    const call = client.getGroups({}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(call).rejects.toMatchObject({
+      name: "AbortError",
+      path: "groups",
+    });
+  });
+
+  it("lets a single call opt in or out of retries", async () => {
+    const adapter = statusAdapter([503, 503, 503]);
+
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        logger: silentLogger,
+        retry: { baseDelay: 1, maxAttempts: 2 },
+      }),
+    );
+
+    await expect(
+      client.createGroup({ name: "test" }, { retry: true }),
+    ).rejects.toBeInstanceOf(ServerError);
+    expect(adapter).toHaveBeenCalledTimes(2);
+
+    adapter.mockClear();
+    await expect(client.getGroups({}, { retry: false })).rejects.toBeInstanceOf(
+      ServerError,
+    );
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting for a rate limit retry once aborted", async () => {
+    const adapter = statusAdapter([429], {
+      headers: {
+        "x-ratelimit-limit": "60",
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": new Date(Date.now() + 60000).toISOString(),
+        "x-ratelimit-retry-after": "60",
+      },
+    });
+    const controller = new AbortController();
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        logger: silentLogger,
+      }),
+    );
+
+    const start = Date.now();
+    const call = client.getGroups({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(call).rejects.toMatchObject({
+      name: "AbortError",
+      path: "groups",
+    });
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting for a retry once aborted", async () => {
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    const adapter = statusAdapter([503]);
+    const controller = new AbortController();
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        logger: silentLogger,
+        retry: { baseDelay: 60000 },
+      }),
+    );
+
+    const start = Date.now();
+    const call = client.getGroups({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(call).rejects.toMatchObject({
+      name: "AbortError",
+      path: "groups",
+    });
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves the queue once aborted, without taking a slot", async () => {
+    let finish = () => {};
+    const adapter = recordingAdapter();
+    adapter.mockImplementationOnce(
+      (config) =>
+        new Promise((resolve) => {
+          finish = () =>
+            resolve({
+              status: 200,
+              statusText: "",
+              data: [],
+              headers: {},
+              config,
+            });
+        }),
+    );
+    const controller = new AbortController();
+    const client = groupsMethods(
+      axiosFactory("secret", {
+        axiosOptions: { adapter },
+        logger: silentLogger,
+        throttle: { concurrency: 1 },
+      }),
+    );
+
+    const first = client.getGroups();
+    const second = client.getGroup(1, { signal: controller.signal });
+    controller.abort();
+
+    await expect(second).rejects.toMatchObject({
+      name: "AbortError",
+      path: "groups/1",
+    });
+    finish();
+    await first;
+    await client.getGroup(2);
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+      "https://api.mailerlite.com/api/v2/groups",
+      "https://api.mailerlite.com/api/v2/groups/2",
+    ]);
+  });
+});
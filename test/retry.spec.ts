@@ -0,0 +1,113 @@
+import axiosFactory from "../src/client";
+import { HttpError, ServerError } from "../src/errors";
+import { silentLogger } from "../src/logger";
+import { RetryPolicy } from "../src/retry";
+import { mockAdapter, statusAdapter, statusError } from "./helpers/adapters";
+
+const networkError = (code: string, method = "get") =>
+  new HttpError("socket hang up", code, { method, url: "groups" });
+
+describe("RetryPolicy", () => {
+  it("retries idempotent methods on transient failures", () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.shouldRetry(statusError(503), 1)).toBe(true);
+    expect(policy.shouldRetry(statusError(502, "put"), 1)).toBe(true);
+    expect(policy.shouldRetry(networkError("ECONNRESET"), 1)).toBe(true);
+    expect(policy.shouldRetry(networkError("ECONNABORTED"), 1)).toBe(true);
+  });
+
+  it("does not retry permanent failures, POSTs or cancelled requests", () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.shouldRetry(statusError(404), 1)).toBe(false);
+    expect(policy.shouldRetry(statusError(503, "post"), 1)).toBe(false);
+    expect(policy.shouldRetry(networkError("ERR_CANCELED"), 1)).toBe(false);
+  });
+
+  it("stops after the maximum number of attempts", () => {
+    const policy = new RetryPolicy({ maxAttempts: 2 });
+
+    expect(policy.shouldRetry(statusError(503), 1)).toBe(true);
+    expect(policy.shouldRetry(statusError(503), 2)).toBe(false);
+  });
+
+  it("lets the predicate opt POSTs in", () => {
+    const policy = new RetryPolicy({
+      shouldRetry: ({ method, path }) =>
+        method === "POST" && path === "groups" ? true : undefined,
+    });
+
+    expect(policy.shouldRetry(statusError(503, "post"), 1)).toBe(true);
+  });
+
+  it("backs off exponentially with jitter", () => {
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 300 });
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const delay = policy.getDelay(attempt);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(
+        Math.min(300, 100 * 2 ** (attempt - 1)),
+      );
+    }
+  });
+});
+
+describe("client retries", () => {
+  it("repeats a failed GET until it succeeds", async () => {
+    const adapter = statusAdapter([503, 502], { data: [] });
+    const client = axiosFactory("key", {
+      axiosOptions: { adapter },
+      logger: silentLogger,
+      retry: { baseDelay: 1 },
+    });
+
+    await expect(client.get("groups")).resolves.toEqual([]);
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects with a typed error once the attempts are used up", async () => {
+    const adapter = statusAdapter([503, 503, 503], { data: [] });
+    const client = axiosFactory("key", {
+      axiosOptions: { adapter },
+      logger: silentLogger,
+      retry: { baseDelay: 1, maxAttempts: 2 },
+    });
+
+    await expect(client.get("groups")).rejects.toBeInstanceOf(ServerError);
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not repeat a POST by default", async () => {
+    const adapter = statusAdapter([503], { data: [] });
+    const client = axiosFactory("key", {
+      axiosOptions: { adapter },
+      logger: silentLogger,
+      retry: { baseDelay: 1 },
+    });
+
+    await expect(client.post("groups", {})).rejects.toBeInstanceOf(ServerError);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves a retried 429 with the transformed body", async () => {
+    const adapter = mockAdapter({ group_name: "test" });
+    adapter.mockImplementationOnce(async (config) => ({
+      status: 429,
+      statusText: "",
+      data: { group_name: "test" },
+      headers: {},
+      config,
+    }));
+
+    const client = axiosFactory("key", {
+      axiosOptions: { adapter },
+      logger: silentLogger,
+      rateLimitRetryDelay: 1,
+    });
+
+    await expect(client.get("groups")).resolves.toEqual({ groupName: "test" });
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+});
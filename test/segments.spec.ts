@@ -1,10 +1,10 @@
 import 'jest-extended'
 import axios from '../src/client'
 import segmentsMethods from '../src/api/segments'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('segments', () => {
-  const client = segmentsMethods(axios(testApiKey))
+  const client = segmentsMethods(axios(testApiKey, fixtureOptions('segments')))
 
   it('gets segments', async () => {
     await expect(client
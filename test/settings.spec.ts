@@ -1,10 +1,10 @@
 import 'jest-extended'
 import axios from '../src/client'
 import settingsMethods from '../src/api/settings'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('settings', () => {
-  const client = settingsMethods(axios(testApiKey))
+  const client = settingsMethods(axios(testApiKey, fixtureOptions('settings')))
 
   it('gets whether double opt-in was enabled', async () => {
     await expect(client
@@ -1,9 +1,9 @@
 import axios from '../src/client'
 import statsMethods from '../src/api/stats'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('stats', () => {
-  const client = statsMethods(axios(testApiKey))
+  const client = statsMethods(axios(testApiKey, fixtureOptions('stats')))
 
   it('gets account stats', async () => {
     await expect(client
@@ -0,0 +1,59 @@
+import { createFakeMailerLite } from "../src/fake";
+import { NotFoundError } from "../src/errors";
+
+describe("exportSubscriberData", () => {
+  it("collects the profile, fields, groups and activity", async () => {
+    const fake = createFakeMailerLite();
+    await fake.createField({ title: "Company size", type: "NUMBER" });
+    const { id: groupId } = await fake.createGroup({ name: "News" });
+    await fake.addSubscriberToGroup(groupId, {
+      email: "john@doe.com",
+      name: "John",
+      fields: { company_size: 50 },
+    });
+    const campaign = await fake.createCampaign({
+      type: "regular",
+      subject: "Hello",
+      groups: [groupId],
+    });
+    await fake.setCampaignContent(campaign.id, {
+      html: "<p>Hi</p>",
+      plain: "Hi",
+    });
+    await fake.actOnCampaign(campaign.id, "send");
+
+    const document = await fake.exportSubscriberData("john@doe.com");
+
+    expect(document).toMatchObject({
+      version: 1,
+      exportedAt: expect.stringMatching(/^\d{4}-\d\d-\d\dT/),
+      profile: { email: "john@doe.com", name: "John", sent: 1 },
+      groups: [{ id: groupId, name: "News" }],
+      activity: [
+        expect.objectContaining({ type: "sendings", subject: "Hello" }),
+      ],
+    });
+    expect(document.profile).not.toHaveProperty("fields");
+    expect(document.fields).toContainEqual({
+      key: "company_size",
+      title: "Company size",
+      type: "NUMBER",
+      value: 50,
+    });
+    expect(document.fields).toContainEqual({
+      key: "email",
+      title: "Email",
+      type: "TEXT",
+      value: "john@doe.com",
+    });
+    expect(JSON.parse(JSON.stringify(document))).toEqual(document);
+  });
+
+  it("fails for unknown subscribers", async () => {
+    const fake = createFakeMailerLite();
+
+    await expect(
+      fake.exportSubscriberData("nobody@doe.com"),
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,61 @@
+import type { RateLimitHeaders } from "../src/types/index.js";
+import { RequestQueue } from "../src/throttle.js";
+
+const headers = (remaining: number, resetIn: number): RateLimitHeaders => ({
+  limit: 60,
+  remaining,
+  reset: new Date(Date.now() + resetIn),
+  retryAfter: 0,
+});
+
+describe("RequestQueue", () => {
+  it("limits the number of concurrent requests", async () => {
+    const queue = new RequestQueue({ concurrency: 2 });
+
+    await queue.acquire();
+    await queue.acquire();
+    let thirdStarted = false;
+    const third = queue.acquire().then(() => {
+      thirdStarted = true;
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(thirdStarted).toBe(false);
+    expect(queue.getStats()).toMatchObject({ pending: 1, active: 2 });
+
+    queue.release();
+    await third;
+    expect(thirdStarted).toBe(true);
+    expect(queue.getStats()).toMatchObject({ pending: 0, active: 2 });
+  });
+
+  it("does not delay requests while the budget is healthy", async () => {
+    const queue = new RequestQueue();
+    await queue.acquire();
+    queue.release(headers(50, 30000));
+
+    const start = Date.now();
+    await queue.acquire();
+    expect(Date.now() - start).toBeLessThan(50);
+  });
+
+  it("waits for the reset once the budget is exhausted", async () => {
+    const queue = new RequestQueue();
+    await queue.acquire();
+    queue.release(headers(0, 150));
+
+    const start = Date.now();
+    await queue.acquire();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(100);
+  });
+
+  it("spreads requests evenly below the threshold", async () => {
+    const queue = new RequestQueue({ concurrency: 3, threshold: 5 });
+    await queue.acquire();
+    queue.release(headers(3, 300));
+
+    const start = Date.now();
+    await Promise.all([queue.acquire(), queue.acquire()]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(80);
+  });
+});
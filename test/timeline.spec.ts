@@ -0,0 +1,164 @@
+import MailerLite from "../src/index";
+import { silentLogger } from "../src/logger";
+import type { Transport } from "../src/types";
+
+const ACTIVITY: { [type: string]: object[] } = {
+  sendings: [
+    {
+      date: "2024-01-10 09:00:00",
+      report_id: 1,
+      subject: "January",
+      type: "sendings",
+    },
+    {
+      date: "2024-02-10 09:00:00",
+      report_id: 2,
+      subject: "February",
+      type: "sendings",
+    },
+    {
+      date: "2024-03-10 09:00:00",
+      report_id: 3,
+      subject: "March",
+      type: "sendings",
+    },
+  ],
+  opens: [
+    {
+      date: "2024-02-11 08:00:00",
+      report_id: 2,
+      subject: "February",
+      type: "opens",
+    },
+    {
+      date: "2024-01-10 12:00:00",
+      report_id: 1,
+      subject: "January",
+      type: "opens",
+    },
+    {
+      date: "2024-02-12 08:00:00",
+      report_id: 2,
+      subject: "February",
+      type: "opens",
+    },
+  ],
+  clicks: [
+    {
+      date: "2024-02-11 08:01:00",
+      report_id: 2,
+      subject: "February",
+      type: "clicks",
+      link_id: 7,
+      link: "https://example.com",
+    },
+  ],
+  unsubscribes: [
+    {
+      date: "2024-03-11 10:00:00",
+      report_id: 3,
+      subject: "March",
+      type: "unsubscribes",
+    },
+  ],
+};
+
+const activityClient = () => {
+  const transport = jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+    async ({ url }) => {
+      const type = url.split("/").pop() as string;
+
+      // The endpoints of a single type leave the type out
+      return {
+        status: 200,
+        headers: {},
+        body: JSON.stringify(
+          type === "activity"
+            ? Object.values(ACTIVITY).flat()
+            : ACTIVITY[type].map((event) => ({ ...event, type: undefined })),
+        ),
+      };
+    },
+  );
+
+  return {
+    transport,
+    mailerLite: MailerLite("secret", { transport, logger: silentLogger }),
+  };
+};
+
+describe("getSubscriberTimeline", () => {
+  it("merges every activity type in chronological order", async () => {
+    const { transport, mailerLite } = activityClient();
+
+    const { events, engagement } =
+      await mailerLite.getSubscriberTimeline("john@doe.com");
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[0][0].url).toMatch(
+      /subscribers\/john@doe.com\/activity$/,
+    );
+    expect(events.map(({ type, date }) => [type, date])).toEqual([
+      ["sendings", "2024-01-10 09:00:00"],
+      ["opens", "2024-01-10 12:00:00"],
+      ["sendings", "2024-02-10 09:00:00"],
+      ["opens", "2024-02-11 08:00:00"],
+      ["clicks", "2024-02-11 08:01:00"],
+      ["opens", "2024-02-12 08:00:00"],
+      ["sendings", "2024-03-10 09:00:00"],
+      ["unsubscribes", "2024-03-11 10:00:00"],
+    ]);
+    expect(events[4]).toEqual({
+      type: "clicks",
+      date: "2024-02-11 08:01:00",
+      campaign: { reportId: "2", subject: "February" },
+      link: "https://example.com",
+      linkId: "7",
+    });
+    expect(engagement).toBeUndefined();
+  });
+
+  it("filters by date and type and summarises the engagement", async () => {
+    const { transport, mailerLite } = activityClient();
+
+    const timeline = await mailerLite.getSubscriberTimeline("john@doe.com", {
+      since: "2024-02-01 00:00:00",
+      types: ["unsubscribes"],
+      engagement: true,
+    });
+
+    expect(
+      transport.mock.calls.map(([request]) => request.url.split("/").pop()),
+    ).toEqual(["unsubscribes", "opens", "clicks", "sendings"]);
+    expect(timeline.events).toEqual([
+      expect.objectContaining({ type: "unsubscribes" }),
+    ]);
+    expect(timeline.engagement).toEqual({
+      lastOpen: "2024-02-12 08:00:00",
+      lastClick: "2024-02-11 08:01:00",
+      sent: 2,
+      opened: 1,
+      openRate: 0.5,
+    });
+  });
+
+  it("summarises a subscriber without activity", async () => {
+    const { mailerLite } = activityClient();
+
+    await expect(
+      mailerLite.getSubscriberTimeline("john@doe.com", {
+        since: new Date("2030-01-01T00:00:00"),
+        engagement: true,
+      }),
+    ).resolves.toEqual({
+      events: [],
+      engagement: {
+        lastOpen: null,
+        lastClick: null,
+        sent: 0,
+        opened: 0,
+        openRate: 0,
+      },
+    });
+  });
+});
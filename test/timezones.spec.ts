@@ -1,10 +1,10 @@
 import 'jest-extended'
 import axios from '../src/client'
 import timezonesMethods from '../src/api/timezones'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('timezones', () => {
-  const client = timezonesMethods(axios(testApiKey))
+  const client = timezonesMethods(axios(testApiKey, fixtureOptions('timezones')))
 
   it('gets all timezones', async () => {
     await expect(client
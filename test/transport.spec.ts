@@ -0,0 +1,174 @@
+import MailerLite from "../src/index";
+import { AbortError, NotFoundError } from "../src/errors";
+import { silentLogger } from "../src/logger";
+import { buildURL, fetchTransport } from "../src/transport";
+import type { Transport } from "../src/types";
+
+const jsonResponse = (
+  body: string,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(body, {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const rateLimitHeaders = {
+  "X-RateLimit-Limit": "60",
+  "X-RateLimit-Remaining": "0",
+  "X-RateLimit-Reset": new Date().toISOString(),
+  "X-RateLimit-Retry-After": "0",
+};
+
+describe("fetch transport", () => {
+  it("uses the global fetch and parses big IDs safely", async () => {
+    const fetch = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(
+        jsonResponse('{"id":98765432109876543210,"group_name":"test"}'),
+      );
+    const mailerLite = MailerLite("secret", {
+      transport: fetchTransport(),
+      logger: silentLogger,
+    });
+
+    await expect(mailerLite.getGroup(1)).resolves.toEqual({
+      id: "98765432109876543210",
+      groupName: "test",
+    });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("https://api.mailerlite.com/api/v2/groups/1");
+    expect(init).toMatchObject({
+      method: "GET",
+      headers: expect.objectContaining({ "X-MailerLite-ApiKey": "secret" }),
+    });
+  });
+
+  it("sends snake_cased JSON bodies and query params", async () => {
+    const fetch = jest.fn(async () => jsonResponse("[]"));
+    const mailerLite = MailerLite("secret", {
+      transport: fetchTransport(fetch),
+      logger: silentLogger,
+    });
+
+    await mailerLite.addSubscriberToGroup(1, {
+      email: "john@doe.com",
+      fields: { lastName: "Doe" },
+    });
+    await mailerLite.getGroups({ limit: 5, offset: 10 });
+
+    const calls = fetch.mock.calls as unknown as [string, RequestInit][];
+    expect(JSON.parse(calls[0][1].body as string)).toEqual({
+      email: "john@doe.com",
+      fields: { last_name: "Doe" },
+    });
+    expect(calls[1][0]).toBe(
+      "https://api.mailerlite.com/api/v2/groups?limit=5&offset=10",
+    );
+  });
+
+  it("retries rate limited requests using the response headers", async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(jsonResponse("{}", 429, rateLimitHeaders))
+      .mockResolvedValueOnce(jsonResponse('{"group_name":"test"}'));
+    const onRateLimitHit = jest.fn();
+    const mailerLite = MailerLite("secret", {
+      transport: fetchTransport(fetch),
+      logger: silentLogger,
+      rateLimitRetryDelay: 1,
+      onRateLimitHit,
+    });
+
+    await expect(mailerLite.getGroup(1)).resolves.toEqual({
+      groupName: "test",
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onRateLimitHit).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 60, remaining: 0, retryAfter: 0 }),
+    );
+  });
+
+  it("maps error statuses and network failures like axios", async () => {
+    const fetch = jest
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new TypeError("fetch failed"), {
+          cause: { code: "ECONNRESET" },
+        }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse('{"error":{"code":404,"message":"Not found"}}', 404),
+      );
+    const mailerLite = MailerLite("secret", {
+      transport: fetchTransport(fetch),
+      logger: silentLogger,
+      retry: { baseDelay: 1 },
+    });
+
+    const error = await mailerLite.getGroup(1).catch((error) => error);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ message: "Not found", path: "groups/1" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects aborted calls with an AbortError", async () => {
+    const controller = new AbortController();
+    const fetch = jest.fn(
+      async (_url: string, init: RequestInit) =>
+        await new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("aborted", "AbortError")),
+          );
+        }),
+    );
+    const mailerLite = MailerLite("secret", {
+      transport: fetchTransport(fetch as typeof globalThis.fetch),
+      logger: silentLogger,
+    });
+
+    const call = mailerLite.getGroups({}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(call).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe("custom transports", () => {
+  it("get the serialized request and hand back the raw body", async () => {
+    const transport = jest.fn<ReturnType<Transport>, Parameters<Transport>>(
+      async () => ({ status: 200, headers: {}, body: '{"subscriber_id":1}' }),
+    );
+    const mailerLite = MailerLite("secret", { transport });
+
+    await expect(mailerLite.createGroup({ name: "test" })).resolves.toEqual({
+      subscriberId: "1",
+    });
+    expect(transport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "POST",
+        url: "https://api.mailerlite.com/api/v2/groups",
+        body: '{"name":"test"}',
+      }),
+    );
+  });
+});
+
+describe("buildURL", () => {
+  it("joins the base URL and serializes params like axios", () => {
+    expect(
+      buildURL("https://example.com/api/", "/groups", {
+        ids: [1, 2],
+        filter: { name: "a b" },
+        skip: undefined,
+      }),
+    ).toBe(
+      "https://example.com/api/groups?ids[]=1&ids[]=2&filter=%7B%22name%22:%22a+b%22%7D",
+    );
+    expect(buildURL("https://example.com/api/", "https://other.com/x")).toBe(
+      "https://other.com/x",
+    );
+  });
+});
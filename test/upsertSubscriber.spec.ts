@@ -0,0 +1,134 @@
+import { createFakeMailerLite } from "../src/fake";
+import type { HookRequest } from "../src/types";
+
+// Fake client listing the operations it was asked for
+const trackedFake = () => {
+  const operations: (string | undefined)[] = [];
+  const fake = createFakeMailerLite({
+    hooks: {
+      beforeRequest: [
+        (request: HookRequest) => {
+          operations.push(request.operation);
+        },
+      ],
+    },
+  });
+
+  return { fake, operations };
+};
+
+describe("upsertSubscriber", () => {
+  it("creates missing subscribers", async () => {
+    const { fake, operations } = trackedFake();
+
+    const result = await fake.upsertSubscriber({
+      email: "john@doe.com",
+      name: "John",
+    });
+
+    expect(result).toMatchObject({
+      status: "created",
+      subscriber: { email: "john@doe.com", name: "John" },
+    });
+    expect(operations).toEqual([
+      "subscribers.getSubscriber",
+      "subscribers.addSubscriber",
+    ]);
+  });
+
+  it("sends only the changed fields", async () => {
+    const { fake, operations } = trackedFake();
+    await fake.createField({ title: "Company size", type: "NUMBER" });
+    await fake.addSubscriber({
+      email: "john@doe.com",
+      name: "John",
+      fields: { company: "ACME", company_size: 10 },
+    });
+    operations.length = 0;
+
+    const result = await fake.upsertSubscriber({
+      email: "john@doe.com",
+      name: "John",
+      fields: { company: "ACME", companySize: 50, city: "Vilnius" },
+    });
+
+    expect(result.status).toBe("updated");
+    expect(result.changes).toEqual({
+      fields: { companySize: 50, city: "Vilnius" },
+    });
+    expect(result.subscriber.fields).toEqual(
+      expect.arrayContaining([
+        { key: "company_size", value: 50, type: "NUMBER" },
+        { key: "city", value: "Vilnius", type: "TEXT" },
+      ]),
+    );
+    expect(operations).toEqual([
+      "subscribers.getSubscriber",
+      "subscribers.updateSubscriber",
+    ]);
+  });
+
+  it("skips the write when nothing changed", async () => {
+    const { fake, operations } = trackedFake();
+    await fake.addSubscriber({
+      email: "john@doe.com",
+      name: "John",
+      fields: { company: "ACME" },
+    });
+    operations.length = 0;
+
+    const result = await fake.upsertSubscriber({
+      email: "john@doe.com",
+      name: "John",
+      fields: { company: "ACME", city: "" },
+      type: "active",
+    });
+
+    expect(result).toMatchObject({ status: "unchanged" });
+    expect(result.changes).toBeUndefined();
+    expect(operations).toEqual(["subscribers.getSubscriber"]);
+  });
+
+  it("sends every given value unless only changes are asked for", async () => {
+    const { fake } = trackedFake();
+    await fake.addSubscriber({ email: "john@doe.com", name: "John" });
+
+    const result = await fake.upsertSubscriber(
+      { email: "john@doe.com", name: "John", type: "active" },
+      { onlyChanged: false },
+    );
+
+    expect(result.status).toBe("updated");
+    expect(result.changes).toEqual({ name: "John", type: "active" });
+  });
+
+  it("keeps unsubscribed subscribers unsubscribed", async () => {
+    const { fake } = trackedFake();
+    await fake.addSubscriber({ email: "john@doe.com", type: "unsubscribed" });
+
+    const kept = await fake.upsertSubscriber({
+      email: "john@doe.com",
+      resubscribe: true,
+    });
+    expect(kept.status).toBe("unchanged");
+
+    const resubscribed = await fake.upsertSubscriber(
+      { email: "john@doe.com", resubscribe: true },
+      { preserveUnsubscribed: false },
+    );
+    expect(resubscribed).toMatchObject({
+      status: "updated",
+      changes: { type: "active" },
+      subscriber: { type: "active" },
+    });
+  });
+
+  it("does not hide other errors", async () => {
+    const { fake } = trackedFake();
+    fake.injectValidationError({ operation: "getSubscriber" });
+
+    await expect(
+      fake.upsertSubscriber({ email: "john@doe.com" }),
+    ).rejects.toMatchObject({ status: 422 });
+  });
+});
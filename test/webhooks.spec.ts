@@ -1,10 +1,10 @@
 import 'jest-extended'
 import axios from '../src/client'
 import webhooksMethods from '../src/api/webhooks'
-import { testApiKey } from '../config'
+import { fixtureOptions, testApiKey } from './helpers/fixtures'
 
 describe('webhooks', () => {
-  const client = webhooksMethods(axios(testApiKey))
+  const client = webhooksMethods(axios(testApiKey, fixtureOptions('webhooks')))
 
   it('gets webhooks', async () => {
     await expect(client